@@ -0,0 +1,38 @@
+/**
+ * Standalone Experiment Worker
+ *
+ * Runs submitted experiments in a process of its own, so a long swarm
+ * doesn't share the web server's process or die with a request. Start the
+ * web server with SWARM_WORKER=external so it only stores submissions,
+ * and give both the same store (SWARM_STORE_DIR). The worker polls the
+ * store for new experiments and for cancel / pause / resume requests, and
+ * resumes unfinished ones when it starts.
+ *
+ *   npm run worker
+ */
+
+import { loadEnvConfig } from '@next/env';
+
+// How often to look for newly submitted experiments
+const POLL_INTERVAL_MS = 5000;
+
+async function main(): Promise<void> {
+  // Same .env files as the web server, loaded before any module reads them
+  loadEnvConfig(process.cwd());
+  const { getExperimentStore } = await import('../src/lib/store');
+  const { ExperimentWorker, InProcessJobQueue } = await import('../src/lib/jobs');
+
+  const worker = new ExperimentWorker({
+    queue: new InProcessJobQueue(),
+    store: getExperimentStore(),
+    concurrency: Number(process.env.SWARM_WORKER_CONCURRENCY) || 1,
+  });
+  await worker.start();
+  worker.watch(POLL_INTERVAL_MS);
+  console.log(`[Worker] Watching for experiments every ${POLL_INTERVAL_MS / 1000}s`);
+}
+
+main().catch(error => {
+  console.error('[Worker] Failed to start:', error instanceof Error ? error.message : 'Unknown error');
+  process.exit(1);
+});
@@ -81,6 +81,7 @@ ${extraction.bodyText.substring(0, 1500)}
       })),
       proposedVariants: variants,
       duration,
+      usage: researcher.usage.totals(),
     });
   } catch (error) {
     console.error('[Analyze] Error:', error);
@@ -0,0 +1,103 @@
+/**
+ * POST /api/experiments/:id/control
+ * 
+ * Cancel, pause or resume a submitted experiment. Cancelling a running
+ * experiment still analyzes the sessions that completed. With a standalone
+ * worker the request is stored and applied on the worker's next poll.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getExperimentStore } from '@/lib/store';
+import { getExperimentWorker, usesExternalWorker } from '@/lib/jobs';
+import type { RunControlState } from '@/lib/swarm';
+import type { ExperimentStatus } from '@/lib/swarm/types';
+
+interface ControlRequest {
+  action: 'cancel' | 'pause' | 'resume';
+}
+
+/**
+ * Run state each action asks for, and the states it applies to
+ */
+const REQUESTS: Record<ControlRequest['action'], { state: RunControlState; from: ExperimentStatus['state'][] }> = {
+  cancel: { state: 'cancelled', from: ['pending', 'running', 'paused'] },
+  pause: { state: 'paused', from: ['running'] },
+  resume: { state: 'running', from: ['paused'] },
+};
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { action }: ControlRequest = await request.json();
+
+    if (!['cancel', 'pause', 'resume'].includes(action)) {
+      return NextResponse.json(
+        { error: 'action must be one of: cancel, pause, resume' },
+        { status: 400 }
+      );
+    }
+
+    const store = getExperimentStore();
+    if (!(await store.getConfig(id))) {
+      return NextResponse.json(
+        { error: 'Experiment not found', experimentId: id },
+        { status: 404 }
+      );
+    }
+
+    // Runs in a standalone worker can't be reached from here, so leave it a request
+    if (usesExternalWorker()) {
+      const status = await store.getStatus(id);
+      const { state, from } = REQUESTS[action];
+      if (!status || !from.includes(status.state)) {
+        return NextResponse.json(
+          { error: `Cannot ${action} experiment in state '${status?.state ?? 'unknown'}'`, experimentId: id, status },
+          { status: 409 }
+        );
+      }
+
+      await store.saveControlRequest(id, state);
+      console.log(`[Experiments] Requested ${action} of ${id} from the worker`);
+
+      return NextResponse.json(
+        { success: true, experimentId: id, action, requested: true, status },
+        { status: 202 }
+      );
+    }
+
+    const worker = getExperimentWorker();
+    const applied = action === 'cancel'
+      ? await worker.cancel(id)
+      : action === 'pause'
+        ? worker.pause(id)
+        : await worker.resume(id);
+
+    const status = await store.getStatus(id);
+    if (!applied) {
+      return NextResponse.json(
+        { error: `Cannot ${action} experiment in state '${status?.state ?? 'unknown'}'`, experimentId: id, status },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[Experiments] ${action} ${id}`);
+
+    return NextResponse.json({
+      success: true,
+      experimentId: id,
+      action,
+      status,
+    });
+
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Experiments] Control error:', errMsg);
+    return NextResponse.json(
+      { error: 'Control failed', details: errMsg },
+      { status: 500 }
+    );
+  }
+}
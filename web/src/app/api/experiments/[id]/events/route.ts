@@ -0,0 +1,108 @@
+/**
+ * GET /api/experiments/:id/events
+ * 
+ * Server-Sent Events stream of an experiment's progress. Safe to
+ * reconnect at any time: each connection starts with the current status
+ * (or the final results if the experiment already finished).
+ * 
+ * Events: progress, complete, cancelled (before any results), error.
+ */
+
+import { NextRequest } from 'next/server';
+import { getExperimentStore } from '@/lib/store';
+import { getJobQueue, serializeResults } from '@/lib/jobs';
+
+export const maxDuration = 300; // Clients reconnect when the stream is cut off
+
+const POLL_INTERVAL_MS = 1000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const store = getExperimentStore();
+
+  if (!(await store.getConfig(id))) {
+    return new Response(
+      JSON.stringify({ error: 'Experiment not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const queue = getJobQueue();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let eventId = 0;
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      // Ask EventSource to reconnect quickly if the connection drops
+      controller.enqueue(encoder.encode('retry: 3000\n\n'));
+
+      let lastStatus = '';
+      try {
+        while (!request.signal.aborted) {
+          const results = await store.getResults(id);
+          if (results) {
+            send('complete', serializeResults(results));
+            break;
+          }
+
+          const status = await store.getStatus(id);
+          const job = await queue.getJob(id);
+
+          if (status?.state === 'failed' || job?.state === 'failed') {
+            send('error', { message: status?.error || job?.error || 'Experiment failed' });
+            break;
+          }
+
+          // Cancelled before any results were analyzed
+          if (status?.state === 'cancelled') {
+            send('cancelled', { completedSessions: status.completedSessions });
+            break;
+          }
+
+          const serialized = JSON.stringify(status);
+          if (status && serialized !== lastStatus) {
+            lastStatus = serialized;
+            send('progress', {
+              state: status.state,
+              completedSessions: status.completedSessions,
+              totalSessions: status.totalSessions,
+              progress: Math.round(status.progress),
+              sessionsByVariant: status.sessionsByVariant,
+              estimatedTimeRemaining: status.estimatedTimeRemaining,
+              stoppedEarly: status.stoppedEarly,
+              allocation: status.allocation,
+              resumedSessions: status.resumedSessions,
+              queueState: job?.state,
+            });
+          }
+
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        const errMsg = error instanceof Error ? error.message : 'Unknown error';
+        send('error', { message: errMsg });
+      }
+
+      try {
+        controller.close();
+      } catch {
+        // Client already disconnected
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * GET /api/experiments/:id
+ * 
+ * Current job state, progress and (once complete) results of a submitted experiment.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getExperimentStore } from '@/lib/store';
+import { getJobQueue, serializeResults } from '@/lib/jobs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const store = getExperimentStore();
+
+    const config = await store.getConfig(id);
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Experiment not found', experimentId: id },
+        { status: 404 }
+      );
+    }
+
+    const [status, results, job] = await Promise.all([
+      store.getStatus(id),
+      store.getResults(id),
+      getJobQueue().getJob(id),
+    ]);
+
+    return NextResponse.json({
+      experimentId: id,
+      name: config.name,
+      url: config.url,
+      job,
+      status,
+      results: results ? serializeResults(results) : null,
+    });
+
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Experiments] Error:', errMsg);
+    return NextResponse.json(
+      { error: 'Failed to load experiment', details: errMsg },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * GET /api/experiments/:id/sessions/:sessionId/recording
+ * 
+ * A recorded session's frames, with the actions and reasoning they line up
+ * with, for stepping through in the replay viewer.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getExperimentStore } from '@/lib/store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; sessionId: string }> }
+) {
+  try {
+    const { id, sessionId } = await params;
+    const store = getExperimentStore();
+
+    const [recording, sessions] = await Promise.all([
+      store.getRecording(id, sessionId),
+      store.getSessions(id),
+    ]);
+    const session = sessions.find(s => s.id === sessionId);
+    if (!recording || !session) {
+      return NextResponse.json(
+        { error: 'Recording not found', experimentId: id, sessionId },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      experimentId: id,
+      sessionId,
+      personaName: session.persona.name,
+      variantId: session.variantId,
+      converted: session.converted,
+      exitReason: session.exitReason,
+      actions: session.actions,
+      recording,
+    });
+
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Recording] Error:', errMsg);
+    return NextResponse.json(
+      { error: 'Failed to load recording', details: errMsg },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * POST /api/experiments
+ * 
+ * Submit a swarm experiment as a background job. Returns immediately with
+ * an experiment ID; poll GET /api/experiments/:id or subscribe to
+ * /api/experiments/:id/events for progress.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getExperimentStore } from '@/lib/store';
+import { getJobQueue } from '@/lib/jobs';
+import { ExperimentRequestError, modelUsage, parseExperimentRequest } from '@/lib/swarm';
+import { PersonaGenerator, getRandomPresetPersonas } from '@/lib/persona';
+import type { ExperimentConfig, ExperimentVariant, ConversionGoal } from '@/lib/swarm/types';
+
+export const maxDuration = 60; // Persona generation only; the swarm runs in the worker
+
+export async function POST(request: NextRequest) {
+  try {
+    const store = getExperimentStore();
+    const {
+      url,
+      variants,
+      conversionGoal,
+      sessionsPerVariant,
+      targetAudience,
+      personaCount,
+      maxConcurrent,
+      significanceLevel,
+      multipleComparisonCorrection,
+      analysisMode,
+      bayesianPrior,
+      sequential,
+      trafficAllocation,
+      bandit,
+      excludeFailures,
+      budgetUsd,
+      perception,
+      recording,
+      decisions,
+      replayExperimentId,
+      replayed,
+    } = await parseExperimentRequest(await request.json(), store);
+
+    // Generate or get personas
+    let personas;
+    let setupUsage;
+    if (replayed) {
+      // Transcripts are matched by persona, so replay with the same ones
+      console.log(`[Experiments] Replaying decisions from ${replayExperimentId}`);
+      personas = replayed.personas;
+    } else if (targetAudience) {
+      console.log(`[Experiments] Generating ${personaCount} personas for: ${targetAudience}`);
+      const generator = new PersonaGenerator();
+      personas = await generator.generatePersonas({
+        targetAudience,
+        productContext: `Website at ${url}`,
+        conversionGoal: conversionGoal.description,
+        count: personaCount,
+        includeEdgeCases: true,
+      });
+      setupUsage = modelUsage(generator.usage.totals());
+    } else {
+      personas = getRandomPresetPersonas(personaCount);
+    }
+
+    const experimentId = `exp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const config: ExperimentConfig = {
+      id: experimentId,
+      name: `Experiment for ${new URL(url).hostname}`,
+      url,
+      variants: variants as ExperimentVariant[],
+      conversionGoal: conversionGoal as ConversionGoal,
+      personas,
+      sessionsPerVariant,
+      maxConcurrent,
+      significanceLevel,
+      multipleComparisonCorrection,
+      analysisMode,
+      bayesianPrior,
+      sequential,
+      trafficAllocation,
+      bandit,
+      excludeFailures,
+      budgetUsd,
+      setupUsage,
+      perception,
+      recording,
+      decisions,
+      replayExperimentId,
+    };
+
+    // Persist before enqueueing so the worker (or a later recovery) can load it
+    await store.saveConfig(config);
+    await store.saveStatus({
+      experimentId,
+      state: 'pending',
+      progress: 0,
+      completedSessions: 0,
+      totalSessions: sessionsPerVariant * variants.length,
+      sessionsByVariant: Object.fromEntries(variants.map(v => [v.id, 0])),
+    });
+
+    const job = await getJobQueue().enqueue(experimentId);
+    console.log(`[Experiments] Queued ${experimentId}: ${variants.length} variants × ${sessionsPerVariant} sessions`);
+
+    return NextResponse.json({
+      success: true,
+      experimentId,
+      job,
+      personas: personas.map(p => p.name),
+      statusUrl: `/api/experiments/${experimentId}`,
+      eventsUrl: `/api/experiments/${experimentId}/events`,
+    }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof ExperimentRequestError) {
+      return NextResponse.json(
+        { error: error.message, experimentId: error.experimentId },
+        { status: error.status }
+      );
+    }
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Experiments] Error:', errMsg);
+    return NextResponse.json(
+      { error: 'Failed to submit experiment', details: errMsg },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/experiments
+ * 
+ * List stored experiments, most recently updated first.
+ */
+export async function GET() {
+  const experiments = await getExperimentStore().listExperiments();
+
+  return NextResponse.json({
+    experiments: experiments.map(e => ({
+      id: e.id,
+      name: e.name,
+      url: e.url,
+      state: e.status?.state ?? 'pending',
+      progress: e.status?.progress ?? 0,
+      completedSessions: e.status?.completedSessions ?? 0,
+      totalSessions: e.status?.totalSessions ?? 0,
+      createdAt: e.createdAt,
+      updatedAt: e.updatedAt,
+    })),
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * POST /api/swarm/plan
+ *
+ * Estimate the sessions, time and cost a swarm experiment needs to
+ * detect a given lift before launching it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { planExperiment, type PlanRequest } from '@/lib/swarm/planning';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: PlanRequest = await request.json();
+
+    if (body.baselineConversionRate === undefined || body.minDetectableEffect === undefined) {
+      return NextResponse.json(
+        { error: 'Missing required fields: baselineConversionRate, minDetectableEffect' },
+        { status: 400 }
+      );
+    }
+
+    const plan = planExperiment(body);
+
+    return NextResponse.json({
+      success: true,
+      plan,
+    });
+
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Swarm Plan] Error:', errMsg);
+    return NextResponse.json(
+      { error: 'Planning failed', details: errMsg },
+      { status: 400 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Swarm Planning API - Sample size, duration and cost estimates',
+    usage: {
+      method: 'POST',
+      body: {
+        baselineConversionRate: 10,
+        minDetectableEffect: 20,
+        effectType: 'relative',
+        alpha: 0.05,
+        power: 0.8,
+        variantCount: 2,
+        maxConcurrent: 2,
+        assumptions: {
+          avgSessionDurationSec: 45,
+          browserCostPerMinute: 0.002,
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * POST /api/swarm/resume
+ * 
+ * Resume an interrupted swarm experiment by ID. Sessions already recorded
+ * in the experiment store are kept; only the remaining budget is run.
+ * Experiments that are queued or still running are left to their runner;
+ * a running status that its runner stopped refreshing can be resumed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SwarmRunner, decisionProviderFor, isStaleStatus } from '@/lib/swarm';
+import type { ExperimentStatus } from '@/lib/swarm/types';
+import { getExperimentStore } from '@/lib/store';
+import { getJobQueue, serializeResults } from '@/lib/jobs';
+
+export const maxDuration = 300; // 5 minutes max
+
+interface ResumeRequest {
+  experimentId: string;
+}
+
+/**
+ * Whether a status can be resumed here. Pending experiments wait for the
+ * job worker; running and paused ones belong to their runner until it goes away.
+ */
+function isResumable(status: ExperimentStatus): boolean {
+  switch (status.state) {
+    case 'cancelled':
+    case 'failed':
+      return true;
+    case 'paused':
+    case 'running':
+    case 'analyzing':
+      return isStaleStatus(status);
+    default:
+      return false;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { experimentId }: ResumeRequest = await request.json();
+
+    if (!experimentId) {
+      return NextResponse.json(
+        { error: 'Missing required field: experimentId' },
+        { status: 400 }
+      );
+    }
+
+    const store = getExperimentStore();
+    const config = await store.getConfig(experimentId);
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Experiment not found', experimentId },
+        { status: 404 }
+      );
+    }
+
+    // A second runner would record every remaining session twice, so only
+    // take over runs whose runner has stopped refreshing their status
+    const [status, job] = await Promise.all([
+      store.getStatus(experimentId),
+      getJobQueue().getJob(experimentId),
+    ]);
+    if (
+      (job && (job.state === 'queued' || job.state === 'running')) ||
+      (status && status.state !== 'completed' && !isResumable(status))
+    ) {
+      return NextResponse.json(
+        { error: `Experiment is already ${job?.state ?? status!.state}`, experimentId, status },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[Swarm] Resuming experiment ${experimentId}`);
+
+    const runner = new SwarmRunner({
+      maxConcurrent: 2,
+      store,
+      decisions: await decisionProviderFor(config, store),
+    });
+
+    const results = await runner.resumeExperiment(experimentId, (status) => {
+      console.log(`[Swarm] Progress: ${status.progress.toFixed(0)}% (${status.completedSessions}/${status.totalSessions})`);
+    });
+
+    console.log(`[Swarm] Experiment complete. Winner: ${results.winner || 'none'}`);
+
+    return NextResponse.json({
+      success: true,
+      experimentId,
+      results: serializeResults(results),
+    });
+
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Swarm] Resume error:', errMsg);
+    return NextResponse.json(
+      { error: 'Resume failed', details: errMsg },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  const experiments = await getExperimentStore().listExperiments();
+
+  return NextResponse.json({
+    message: 'Swarm Resume API - Continue an interrupted experiment',
+    usage: {
+      method: 'POST',
+      body: { experimentId: 'exp_1700000000000_abc123' },
+    },
+    resumable: experiments
+      .filter(e => e.status && isResumable(e.status))
+      .map(e => ({
+        id: e.id,
+        name: e.name,
+        state: e.status?.state,
+        completedSessions: e.status?.completedSessions,
+        totalSessions: e.status?.totalSessions,
+      })),
+  });
+}
@@ -5,56 +5,58 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { SwarmRunner } from '@/lib/swarm';
+import {
+  ExperimentRequestError,
+  RunControl,
+  SwarmRunner,
+  decisionProviderFor,
+  modelUsage,
+  parseExperimentRequest,
+} from '@/lib/swarm';
+import { serializeResults } from '@/lib/jobs';
+import { getExperimentStore } from '@/lib/store';
 import { PersonaGenerator, getRandomPresetPersonas } from '@/lib/persona';
 import type { ExperimentConfig, ExperimentVariant, ConversionGoal } from '@/lib/swarm/types';
 
 export const maxDuration = 300; // 5 minutes max
 
-interface RunRequest {
-  url: string;
-  variants: Array<{
-    id: string;
-    name: string;
-    isControl: boolean;
-    css?: string;
-    js?: string;
-  }>;
-  conversionGoal: {
-    type: 'click' | 'submit' | 'navigate' | 'custom';
-    target: string;
-    description: string;
-  };
-  sessionsPerVariant?: number;
-  targetAudience?: string;
-  personaCount?: number;
-}
-
 export async function POST(request: NextRequest) {
   try {
-    const body: RunRequest = await request.json();
-    const { 
-      url, 
-      variants, 
-      conversionGoal, 
-      sessionsPerVariant = 5,
+    const store = getExperimentStore();
+    const {
+      url,
+      variants,
+      conversionGoal,
+      sessionsPerVariant,
       targetAudience,
-      personaCount = 5,
-    } = body;
-
-    if (!url || !variants?.length || !conversionGoal) {
-      return NextResponse.json(
-        { error: 'Missing required fields: url, variants, conversionGoal' },
-        { status: 400 }
-      );
-    }
+      personaCount,
+      significanceLevel,
+      multipleComparisonCorrection,
+      analysisMode,
+      bayesianPrior,
+      sequential,
+      trafficAllocation,
+      bandit,
+      excludeFailures,
+      budgetUsd,
+      perception,
+      recording,
+      decisions,
+      replayExperimentId,
+      replayed,
+    } = await parseExperimentRequest(await request.json(), store);
 
     console.log(`[Swarm] Starting experiment for ${url}`);
     console.log(`[Swarm] ${variants.length} variants, ${sessionsPerVariant} sessions each`);
 
     // Generate or get personas
     let personas;
-    if (targetAudience) {
+    let setupUsage;
+    if (replayed) {
+      // Transcripts are matched by persona, so replay with the same ones
+      console.log(`[Swarm] Replaying decisions from ${replayExperimentId}`);
+      personas = replayed.personas;
+    } else if (targetAudience) {
       console.log(`[Swarm] Generating ${personaCount} personas for: ${targetAudience}`);
       const generator = new PersonaGenerator();
       personas = await generator.generatePersonas({
@@ -64,6 +66,7 @@ export async function POST(request: NextRequest) {
         count: personaCount,
         includeEdgeCases: true,
       });
+      setupUsage = modelUsage(generator.usage.totals());
     } else {
       console.log(`[Swarm] Using ${personaCount} preset personas`);
       personas = getRandomPresetPersonas(personaCount);
@@ -80,49 +83,57 @@ export async function POST(request: NextRequest) {
       personas,
       sessionsPerVariant,
       maxConcurrent: 2, // Conservative to avoid rate limits
+      significanceLevel,
+      multipleComparisonCorrection,
+      analysisMode,
+      bayesianPrior,
+      sequential,
+      trafficAllocation,
+      bandit,
+      excludeFailures,
+      budgetUsd,
+      setupUsage,
+      perception,
+      recording,
+      decisions,
+      replayExperimentId,
     };
 
     // Run the swarm
     const runner = new SwarmRunner({
       maxConcurrent: 2,
-      delayBetweenSessions: 3000, // 3s between batches
+      store,
+      decisions: await decisionProviderFor(config, store),
     });
 
     console.log(`[Swarm] Running ${personas.length} personas × ${variants.length} variants × ${sessionsPerVariant} sessions`);
 
+    // Stop the swarm if the caller goes away
+    const control = new RunControl();
+    request.signal.addEventListener('abort', () => control.cancel('Client disconnected'));
+
     const results = await runner.runExperiment(config, (status) => {
       console.log(`[Swarm] Progress: ${status.progress.toFixed(0)}% (${status.completedSessions}/${status.totalSessions})`);
-    });
+    }, control);
 
     console.log(`[Swarm] Experiment complete. Winner: ${results.winner || 'none'}`);
 
+    // Session summaries stay alongside the results, as before
+    const { sessions, ...summary } = serializeResults(results);
     return NextResponse.json({
       success: true,
       experimentId,
-      results: {
-        winner: results.winner,
-        confidence: results.confidence,
-        isSignificant: results.isSignificant,
-        insights: results.insights,
-        recommendations: results.recommendations,
-        variantResults: results.variantResults,
-        totalSessions: results.sessions.length,
-      },
-      // Include session summaries (not full details to save bandwidth)
-      sessions: results.sessions.map(s => ({
-        id: s.id,
-        personaName: s.persona.name,
-        variantId: s.variantId,
-        converted: s.converted,
-        timeOnPage: s.metrics.timeOnPage,
-        scrollDepth: s.metrics.scrollDepthPercent,
-        clicks: s.metrics.clickCount,
-        impression: s.impression,
-        exitReason: s.exitReason,
-      })),
+      results: summary,
+      sessions,
     });
 
   } catch (error) {
+    if (error instanceof ExperimentRequestError) {
+      return NextResponse.json(
+        { error: error.message, experimentId: error.experimentId },
+        { status: error.status }
+      );
+    }
     const errMsg = error instanceof Error ? error.message : 'Unknown error';
     console.error('[Swarm] Error:', errMsg);
     return NextResponse.json(
@@ -151,6 +162,13 @@ export async function GET() {
         sessionsPerVariant: 5,
         targetAudience: 'Tech-savvy millennials looking for productivity tools',
         personaCount: 5,
+        significanceLevel: 0.05,
+        multipleComparisonCorrection: 'holm',
+        analysisMode: 'bayesian',
+        bayesianPrior: { alpha: 1, beta: 1 },
+        sequential: { spending: 'obrien-fleming', futility: true },
+        bandit: { burnInSessionsPerVariant: 3, minShare: 0.05 },
+        decisions: 'llm',
       },
     },
   });
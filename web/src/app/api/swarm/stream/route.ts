@@ -6,57 +6,76 @@
  */
 
 import { NextRequest } from 'next/server';
-import { SwarmRunner } from '@/lib/swarm';
+import {
+  ExperimentRequestError,
+  RunControl,
+  SwarmRunner,
+  decisionProviderFor,
+  modelUsage,
+  parseExperimentRequest,
+} from '@/lib/swarm';
+import { serializeResults } from '@/lib/jobs';
+import { getExperimentStore } from '@/lib/store';
 import { PersonaGenerator, getRandomPresetPersonas } from '@/lib/persona';
 import type { ExperimentConfig, ExperimentVariant, ConversionGoal, ExperimentStatus } from '@/lib/swarm/types';
 
 export const maxDuration = 300; // 5 minutes max
 
-interface StreamRequest {
-  url: string;
-  variants: Array<{
-    id: string;
-    name: string;
-    isControl: boolean;
-    css?: string;
-    js?: string;
-  }>;
-  conversionGoal: {
-    type: 'click' | 'submit' | 'navigate' | 'custom';
-    target: string;
-    description: string;
-  };
-  sessionsPerVariant?: number;
-  targetAudience?: string;
-  personaCount?: number;
-}
-
 export async function POST(request: NextRequest) {
-  const body: StreamRequest = await request.json();
-  const { 
-    url, 
-    variants, 
-    conversionGoal, 
-    sessionsPerVariant = 5,
-    targetAudience,
-    personaCount = 5,
-  } = body;
-
-  if (!url || !variants?.length || !conversionGoal) {
+  const store = getExperimentStore();
+  let parsed;
+  try {
+    parsed = await parseExperimentRequest(await request.json(), store);
+  } catch (error) {
+    if (!(error instanceof ExperimentRequestError)) throw error;
     return new Response(
-      JSON.stringify({ error: 'Missing required fields' }),
-      { status: 400, headers: { 'Content-Type': 'application/json' } }
+      JSON.stringify({ error: error.message, experimentId: error.experimentId }),
+      { status: error.status, headers: { 'Content-Type': 'application/json' } }
     );
   }
+  const {
+    url,
+    variants,
+    conversionGoal,
+    sessionsPerVariant,
+    targetAudience,
+    personaCount,
+    significanceLevel,
+    multipleComparisonCorrection,
+    analysisMode,
+    bayesianPrior,
+    sequential,
+    trafficAllocation,
+    bandit,
+    excludeFailures,
+    budgetUsd,
+    perception,
+    recording,
+    decisions,
+    replayExperimentId,
+    replayed,
+  } = parsed;
 
   // Create a readable stream for SSE
   const encoder = new TextEncoder();
+
+  // Closing the page ends the request; stop the swarm with it
+  const control = new RunControl();
+  request.signal.addEventListener('abort', () => control.cancel('Client disconnected'));
   
   const stream = new ReadableStream({
     async start(controller) {
       const send = (event: string, data: unknown) => {
+        if (control.signal.aborted) return;
         controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
       };
+      const close = () => {
+        try {
+          controller.close();
+        } catch {
+          // Client already disconnected
+        }
+      };
 
       try {
         // Send initial status
@@ -66,7 +85,10 @@ export async function POST(request: NextRequest) {
         send('status', { state: 'generating_personas', message: 'Creating AI personas...' });
         
         let personas;
-        if (targetAudience) {
+        let setupUsage;
+        if (replayed) {
+          personas = replayed.personas;
+        } else if (targetAudience) {
           const generator = new PersonaGenerator();
           personas = await generator.generatePersonas({
             targetAudience,
@@ -75,6 +97,7 @@ export async function POST(request: NextRequest) {
             count: personaCount,
             includeEdgeCases: true,
           });
+          setupUsage = modelUsage(generator.usage.totals());
         } else {
           personas = getRandomPresetPersonas(personaCount);
         }
@@ -95,6 +118,20 @@ export async function POST(request: NextRequest) {
           personas,
           sessionsPerVariant,
           maxConcurrent: 2,
+          significanceLevel,
+          multipleComparisonCorrection,
+          analysisMode,
+          bayesianPrior,
+          sequential,
+          trafficAllocation,
+          bandit,
+          excludeFailures,
+          budgetUsd,
+          setupUsage,
+          perception,
+          recording,
+          decisions,
+          replayExperimentId,
         };
 
         send('status', { 
@@ -106,7 +143,8 @@ export async function POST(request: NextRequest) {
         // Run the swarm with progress callback
         const runner = new SwarmRunner({
           maxConcurrent: 2,
-          delayBetweenSessions: 3000,
+          store,
+          decisions: await decisionProviderFor(config, store),
         });
 
         const results = await runner.runExperiment(config, (status: ExperimentStatus) => {
@@ -116,40 +154,26 @@ export async function POST(request: NextRequest) {
             progress: Math.round(status.progress),
             sessionsByVariant: status.sessionsByVariant,
             estimatedTimeRemaining: status.estimatedTimeRemaining,
+            stoppedEarly: status.stoppedEarly,
+            allocation: status.allocation,
+            resumedSessions: status.resumedSessions,
           });
-        });
+        }, control);
 
         // Send final results
-        send('complete', {
-          experimentId,
-          winner: results.winner,
-          confidence: results.confidence,
-          isSignificant: results.isSignificant,
-          insights: results.insights,
-          recommendations: results.recommendations,
-          variantResults: results.variantResults,
-          totalSessions: results.sessions.length,
-          sessions: results.sessions.map(s => ({
-            id: s.id,
-            personaName: s.persona.name,
-            variantId: s.variantId,
-            converted: s.converted,
-            timeOnPage: s.metrics.timeOnPage,
-            scrollDepth: s.metrics.scrollDepthPercent,
-            clicks: s.metrics.clickCount,
-            impression: s.impression,
-            exitReason: s.exitReason,
-          })),
-        });
+        send('complete', serializeResults(results));
 
-        controller.close();
+        close();
 
       } catch (error) {
         const errMsg = error instanceof Error ? error.message : 'Unknown error';
         send('error', { message: errMsg });
-        controller.close();
+        close();
       }
     },
+    cancel() {
+      control.cancel('Client disconnected');
+    },
   });
 
   return new Response(stream, {
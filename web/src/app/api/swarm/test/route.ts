@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SwarmRunner } from '@/lib/swarm';
 import { getPresetPersona, type PersonaPreset } from '@/lib/persona';
+import type { ConversionDetector, ConversionStep } from '@/lib/swarm/types';
 
 export const maxDuration = 120; // 2 minutes max
 
@@ -15,9 +16,11 @@ interface TestRequest {
   url: string;
   personaPreset?: PersonaPreset;
   conversionGoal?: {
-    type: 'click' | 'submit' | 'navigate' | 'custom';
+    type: 'click' | 'submit' | 'navigate' | 'custom' | 'funnel';
     target: string;
     description: string;
+    steps?: ConversionStep[];
+    detectors?: ConversionDetector[];
   };
   css?: string;
   js?: string;
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateVariants, PageAnalysis } from '@/lib/variants';
+import { UsageMeter } from '@/lib/llm';
 
 export const maxDuration = 30;
 
@@ -18,7 +19,8 @@ export async function POST(request: NextRequest) {
     console.log(`[Variants] Generating ${numVariants} variants for: ${url}`);
     const startTime = Date.now();
 
-    const variants = await generateVariants(url, analysis as PageAnalysis, numVariants);
+    const meter = new UsageMeter();
+    const variants = await generateVariants(url, analysis as PageAnalysis, numVariants, meter);
 
     const duration = Date.now() - startTime;
     console.log(`[Variants] Generated ${variants.length} variants in ${duration}ms`);
@@ -31,6 +33,7 @@ export async function POST(request: NextRequest) {
         count: variants.length,
       },
       duration,
+      usage: meter.totals(),
     });
   } catch (error) {
     console.error('[Variants] Error:', error);
@@ -1,6 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { estimateRun, planExperiment, type ExperimentPlan } from '@/lib/swarm/planning';
 
 interface Variant {
   id: string;
@@ -27,28 +29,178 @@ interface SessionSummary {
   clicks: number;
   impression: 'positive' | 'neutral' | 'negative';
   exitReason?: string;
+  recorded?: boolean;
+}
+
+interface RecordedAction {
+  type: string;
+  target?: string;
+  details?: string;
+  value?: string;
+  reasoning?: string;
+}
+
+interface RecordingFrame {
+  timestamp: number;
+  actionIndex: number;
+  url: string;
+  scrollY: number;
+  screenshot?: string;
+  html?: string;
+}
+
+interface SessionReplayData {
+  personaName: string;
+  converted: boolean;
+  exitReason?: string;
+  actions: RecordedAction[];
+  recording: {
+    viewport: { width: number; height: number };
+    frames: RecordingFrame[];
+  };
+}
+
+interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  level: number;
 }
 
 interface VariantResult {
   variantId: string;
   sessions: number;
+  failedSessions: number;
+  excludedSessions: number;
   conversions: number;
   conversionRate: number;
+  conversionRateCI: ConfidenceInterval;
+  weightedConversionRate?: number;
+  pValue: number | null;
+  adjustedPValue: number | null;
   avgTimeOnPage: number;
   avgScrollDepth: number;
   avgClicks: number;
   bounceRate: number;
   engagementScore: number;
   topExitReasons: Array<{ reason: string; count: number }>;
+  formFunnel?: FormFunnel;
+  funnel?: FunnelStepResult[];
+  heatmaps?: VariantHeatmap[];
+  scrollReach?: ScrollReachPoint[];
+  attention?: SectionAttentionSummary[];
+}
+
+interface SectionAttentionSummary {
+  section: string;
+  url: string;
+  sessions: number;
+  read: number;
+  skimmed: number;
+  avgDwellMs: number;
+}
+
+interface VariantHeatmap {
+  device: 'mobile' | 'tablet' | 'desktop';
+  sessions: number;
+  width: number;
+  height: number;
+  screenshot?: string;
+  points: Array<{ type: 'click' | 'hover'; x: number; y: number }>;
+  elements: Array<{ target: string; clicks: number; hovers: number }>;
+}
+
+interface ScrollReachPoint {
+  depthPercent: number;
+  reached: number;
+}
+
+interface FunnelStepResult {
+  step: string;
+  reached: number;
+  rate: number;
+  dropOff: number;
+}
+
+interface FieldFunnelStep {
+  field: string;
+  reached: number;
+  completed: number;
+  avgTimeMs: number;
+  errors: number;
+  corrections: number;
+  abandonedHere: number;
+}
+
+interface FormFunnel {
+  started: number;
+  submitted: number;
+  avgDurationMs: number;
+  fields: FieldFunnelStep[];
+}
+
+interface VariantComparison {
+  variantId: string;
+  baselineId: string;
+  conversion: { method: string; pValue: number };
+  adjustedPValue: number;
+  lift: {
+    absolute: number;
+    absoluteCI: ConfidenceInterval;
+    relative: number | null;
+    relativeCI: ConfidenceInterval | null;
+  };
+  isSignificant: boolean;
+}
+
+interface BayesianVariantResult {
+  variantId: string;
+  posterior: { alpha: number; beta: number; mean: number; credibleInterval: ConfidenceInterval };
+  probabilityToBeatBaseline: number | null;
+  probabilityToBeBest: number;
+  expectedLoss: number;
+  expectedLift: number | null;
+  liftCredibleInterval: ConfidenceInterval | null;
+}
+
+interface BayesianResults {
+  baselineId: string | null;
+  credibleLevel: number;
+  variants: Record<string, BayesianVariantResult>;
+}
+
+interface EarlyStop {
+  reason: 'efficacy' | 'futility';
+  message: string;
+  variantId?: string;
+  completedSessions: number;
+  informationFraction: number;
+}
+
+interface UsageTotals {
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  browserMinutes: number;
+  totalCostUsd: number;
 }
 
 interface ExperimentResults {
   winner: string | null;
-  confidence: number;
+  baseline: string | null;
+  pValue: number | null;
+  adjustedPValue: number | null;
+  significanceLevel: number;
+  multipleComparisonCorrection: 'holm' | 'benjamini-hochberg' | 'none';
   isSignificant: boolean;
   insights: string[];
   recommendations: string[];
   variantResults: Record<string, VariantResult>;
+  comparisons: Record<string, VariantComparison>;
+  bayesian?: BayesianResults;
+  stoppedEarly?: EarlyStop;
+  cancelled?: boolean;
+  budgetExceeded?: boolean;
+  usage?: UsageTotals;
   totalSessions: number;
 }
 
@@ -58,11 +210,22 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
     sessionsPerVariant: 5,
     targetAudience: '',
     personaCount: 5,
+    analysisMode: 'frequentist' as 'frequentist' | 'bayesian',
+    sequential: false,
+    adaptiveAllocation: false,
+    budgetUsd: 0,
+    vision: false,
+    recording: '' as '' | 'screenshots' | 'dom',
     conversionGoal: {
       type: 'click' as const,
       target: '',
       description: '',
     },
+    journey: '',
+  });
+  const [planning, setPlanning] = useState({
+    baselineConversionRate: 10,
+    minDetectableEffect: 50,
   });
   const [progress, setProgress] = useState(0);
   const [progressInfo, setProgressInfo] = useState<{
@@ -74,6 +237,12 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
   const [results, setResults] = useState<ExperimentResults | null>(null);
   const [sessions, setSessions] = useState<SessionSummary[]>([]);
   const [error, setError] = useState<string>('');
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const [experimentId, setExperimentId] = useState<string | null>(null);
+  const [runState, setRunState] = useState<string>('pending');
+
+  // Stop listening when the component goes away; the job keeps running
+  useEffect(() => () => eventSourceRef.current?.close(), []);
 
   const startExperiment = async () => {
     setStatus('running');
@@ -82,7 +251,7 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
     setProgressInfo({ completedSessions: 0, totalSessions: config.sessionsPerVariant * variants.length });
 
     try {
-      const res = await fetch('/api/swarm/stream', {
+      const res = await fetch('/api/experiments', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -94,77 +263,85 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
             css: v.css,
             js: v.js,
           })),
-          conversionGoal: config.conversionGoal,
+          conversionGoal: conversionGoalFor(config.conversionGoal, config.journey),
           sessionsPerVariant: config.sessionsPerVariant,
           targetAudience: config.targetAudience || undefined,
           personaCount: config.personaCount,
+          analysisMode: config.analysisMode,
+          sequential: config.sequential ? {} : undefined,
+          bandit: config.adaptiveAllocation ? {} : undefined,
+          budgetUsd: config.budgetUsd > 0 ? config.budgetUsd : undefined,
+          perception: config.vision ? 'vision' : 'text',
+          recording: config.recording || undefined,
         }),
       });
 
+      const submitted = await res.json();
       if (!res.ok) {
-        const err = await res.json();
-        throw new Error(err.details || err.error || 'Experiment failed');
+        throw new Error(submitted.details || submitted.error || 'Experiment failed');
       }
+      setProgressInfo(prev => ({ ...prev, personas: submitted.personas }));
+      setExperimentId(submitted.experimentId);
+      setRunState('pending');
 
-      // Handle SSE stream
-      const reader = res.body?.getReader();
-      const decoder = new TextDecoder();
-      
-      if (!reader) {
-        throw new Error('No response stream');
-      }
+      // The experiment runs as a background job; EventSource reconnects on its own
+      await new Promise<void>((resolve, reject) => {
+        const events = new EventSource(submitted.eventsUrl);
+        eventSourceRef.current = events;
 
-      let buffer = '';
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n\n');
-        buffer = lines.pop() || '';
-        
-        for (const chunk of lines) {
-          const eventMatch = chunk.match(/event: (\w+)/);
-          const dataMatch = chunk.match(/data: (.+)/);
-          
-          if (eventMatch && dataMatch) {
-            const event = eventMatch[1];
-            const data = JSON.parse(dataMatch[1]);
-            
-            switch (event) {
-              case 'personas':
-                setProgressInfo(prev => ({ ...prev, personas: data.names }));
-                break;
-              case 'progress':
-                setProgress(data.progress);
-                setProgressInfo(prev => ({
-                  ...prev,
-                  completedSessions: data.completedSessions,
-                  totalSessions: data.totalSessions,
-                  estimatedTimeRemaining: data.estimatedTimeRemaining,
-                }));
-                break;
-              case 'complete':
-                setResults({
-                  winner: data.winner,
-                  confidence: data.confidence,
-                  isSignificant: data.isSignificant,
-                  insights: data.insights,
-                  recommendations: data.recommendations,
-                  variantResults: data.variantResults,
-                  totalSessions: data.totalSessions,
-                });
-                setSessions(data.sessions || []);
-                setStatus('complete');
-                onComplete?.(data);
-                break;
-              case 'error':
-                throw new Error(data.message);
-            }
-          }
-        }
-      }
+        events.addEventListener('progress', (e) => {
+          const data = JSON.parse((e as MessageEvent).data);
+          setProgress(data.progress);
+          setRunState(data.state);
+          setProgressInfo(prev => ({
+            ...prev,
+            completedSessions: data.completedSessions,
+            totalSessions: data.totalSessions,
+            estimatedTimeRemaining: data.estimatedTimeRemaining,
+          }));
+        });
+
+        events.addEventListener('complete', (e) => {
+          const data = JSON.parse((e as MessageEvent).data);
+          events.close();
+          setResults({
+            winner: data.winner,
+            baseline: data.baseline,
+            pValue: data.pValue,
+            adjustedPValue: data.adjustedPValue,
+            significanceLevel: data.significanceLevel,
+            multipleComparisonCorrection: data.multipleComparisonCorrection,
+            isSignificant: data.isSignificant,
+            insights: data.insights,
+            recommendations: data.recommendations,
+            variantResults: data.variantResults,
+            comparisons: data.comparisons,
+            bayesian: data.bayesian,
+            stoppedEarly: data.stoppedEarly,
+            cancelled: data.cancelled,
+            budgetExceeded: data.budgetExceeded,
+            usage: data.usage,
+            totalSessions: data.totalSessions,
+          });
+          setSessions(data.sessions || []);
+          setStatus('complete');
+          onComplete?.(data);
+          resolve();
+        });
+
+        events.addEventListener('cancelled', () => {
+          events.close();
+          reject(new Error('Experiment was cancelled before any sessions completed'));
+        });
+
+        events.addEventListener('error', (e) => {
+          // Connection drops have no payload and are retried by the browser
+          const message = (e as MessageEvent).data;
+          if (!message) return;
+          events.close();
+          reject(new Error(JSON.parse(message).message));
+        });
+      });
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unknown error');
@@ -172,6 +349,19 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
     }
   };
 
+  const controlExperiment = async (action: 'cancel' | 'pause' | 'resume') => {
+    if (!experimentId) return;
+    const res = await fetch(`/api/experiments/${experimentId}/control`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action }),
+    });
+    if (res.ok) {
+      const data = await res.json();
+      if (data.status?.state) setRunState(data.status.state);
+    }
+  };
+
   if (status === 'idle') {
     return (
       <div className="bg-gradient-to-br from-purple-900/30 to-purple-800/20 rounded-xl p-6 border border-purple-500/20">
@@ -216,6 +406,21 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
   }
 
   if (status === 'configuring') {
+    // Runner settings used by /api/experiments
+    const runnerSettings = { maxConcurrent: 2 };
+    let plan: ExperimentPlan | null = null;
+    try {
+      plan = planExperiment({
+        ...planning,
+        variantCount: Math.max(2, variants.length),
+        ...runnerSettings,
+      });
+    } catch {
+      plan = null;
+    }
+    const estimate = estimateRun(variants.length * config.sessionsPerVariant, runnerSettings);
+    const sessionOptions = [3, 5, 10, 20];
+
     return (
       <div className="bg-gray-900/50 rounded-xl p-6 border border-gray-700/50">
         <h3 className="font-bold text-white mb-4 flex items-center gap-2">
@@ -252,6 +457,21 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
             />
           </div>
 
+          <div>
+            <label className="text-sm text-gray-400 mb-1 block">Journey steps (optional, comma-separated)</label>
+            <input
+              type="text"
+              value={config.journey}
+              onChange={(e) => setConfig({ ...config, journey: e.target.value })}
+              placeholder="e.g., /pricing, Sign Up, submit, /welcome"
+              className="w-full bg-gray-800/50 border border-gray-700/50 rounded-lg px-3 py-2 text-white placeholder:text-gray-500 text-sm"
+            />
+            <p className="text-[10px] text-gray-600 mt-1">
+              Paths are pages to reach, &quot;submit&quot; is a form submission, anything else is a button to click.
+              Completing the last step counts as the conversion.
+            </p>
+          </div>
+
           {/* Target Audience */}
           <div>
             <label className="text-sm text-gray-400 mb-1 block">Target audience (optional)</label>
@@ -278,6 +498,9 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
                 <option value={5}>5 (recommended)</option>
                 <option value={10}>10 (thorough)</option>
                 <option value={20}>20 (statistical)</option>
+                {!sessionOptions.includes(config.sessionsPerVariant) && (
+                  <option value={config.sessionsPerVariant}>{config.sessionsPerVariant} (planned)</option>
+                )}
               </select>
             </div>
             <div>
@@ -295,13 +518,132 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
             </div>
           </div>
 
+          {/* Analysis mode */}
+          <div>
+            <label className="text-sm text-gray-400 mb-1 block">Analysis</label>
+            <select
+              value={config.analysisMode}
+              onChange={(e) => setConfig({ ...config, analysisMode: e.target.value as 'frequentist' | 'bayesian' })}
+              className="w-full bg-gray-800/50 border border-gray-700/50 rounded-lg px-3 py-2 text-white text-sm"
+            >
+              <option value="frequentist">Frequentist (p-values)</option>
+              <option value="bayesian">Frequentist + Bayesian (probability to beat control)</option>
+            </select>
+          </div>
+
+          {/* Session recording */}
+          <div>
+            <label className="text-sm text-gray-400 mb-1 block">Session replays</label>
+            <select
+              value={config.recording}
+              onChange={(e) => setConfig({ ...config, recording: e.target.value as '' | 'screenshots' | 'dom' })}
+              className="w-full bg-gray-800/50 border border-gray-700/50 rounded-lg px-3 py-2 text-white text-sm"
+            >
+              <option value="">Off</option>
+              <option value="dom">Record page snapshots (smaller)</option>
+              <option value="screenshots">Record screenshots (exactly what agents saw)</option>
+            </select>
+          </div>
+
+          {/* Budget cap */}
+          <div>
+            <label className="text-sm text-gray-400 mb-1 block">Budget cap (USD)</label>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={config.budgetUsd}
+              onChange={(e) => setConfig({ ...config, budgetUsd: Number(e.target.value) })}
+              className="w-full bg-gray-800/50 border border-gray-700/50 rounded-lg px-3 py-2 text-white text-sm"
+            />
+            <p className="text-xs text-gray-600 mt-1">0 for no cap; no new sessions start once it is reached</p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={config.sequential}
+              onChange={(e) => setConfig({ ...config, sequential: e.target.checked })}
+              className="accent-purple-500"
+            />
+            Stop early when the result is clear (sequential testing)
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={config.vision}
+              onChange={(e) => setConfig({ ...config, vision: e.target.checked })}
+              className="accent-purple-500"
+            />
+            Let agents see the page (screenshots; needed for visual variants, uses more tokens)
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            <input
+              type="checkbox"
+              checked={config.adaptiveAllocation}
+              onChange={(e) => setConfig({ ...config, adaptiveAllocation: e.target.checked })}
+              className="accent-purple-500"
+            />
+            Shift sessions toward better variants (Thompson sampling)
+          </label>
+
+          {/* Sample size planner */}
+          <div className="bg-gray-800/30 rounded-lg p-3 space-y-2">
+            <p className="text-xs text-gray-400 font-medium">Sample size planner</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs text-gray-500 mb-1 block">Baseline conversion (%)</label>
+                <input
+                  type="number"
+                  min={0.1}
+                  max={99}
+                  step={0.5}
+                  value={planning.baselineConversionRate}
+                  onChange={(e) => setPlanning({ ...planning, baselineConversionRate: Number(e.target.value) })}
+                  className="w-full bg-gray-800/50 border border-gray-700/50 rounded-lg px-3 py-1.5 text-white text-sm"
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-500 mb-1 block">Minimum detectable lift (%)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step={5}
+                  value={planning.minDetectableEffect}
+                  onChange={(e) => setPlanning({ ...planning, minDetectableEffect: Number(e.target.value) })}
+                  className="w-full bg-gray-800/50 border border-gray-700/50 rounded-lg px-3 py-1.5 text-white text-sm"
+                />
+              </div>
+            </div>
+            {plan ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-400">
+                  Needs <span className="text-purple-400 font-medium">{plan.sessionsPerVariant} sessions/variant</span>
+                  {' '}for 80% power • ~{Math.ceil(plan.estimatedDurationSec / 60)} min • ~${plan.estimatedCost.total.toFixed(2)}
+                </p>
+                <button
+                  onClick={() => setConfig({ ...config, sessionsPerVariant: plan.sessionsPerVariant })}
+                  className="text-xs bg-purple-600/30 hover:bg-purple-600/50 text-purple-200 px-2 py-1 rounded"
+                >
+                  Use
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-600">Enter a baseline between 0 and 100% and a positive lift</p>
+            )}
+          </div>
+
           {/* Estimated info */}
           <div className="bg-gray-800/30 rounded-lg p-3">
             <p className="text-xs text-gray-400">
               <span className="text-purple-400 font-medium">
                 {variants.length * config.sessionsPerVariant} total sessions
               </span>
-              {' '}• Estimated time: {Math.ceil(variants.length * config.sessionsPerVariant * 0.5)} - {Math.ceil(variants.length * config.sessionsPerVariant * 1)} minutes
+              {' '}• Estimated time: ~{Math.ceil(estimate.estimatedDurationSec / 60)} minutes
+              {' '}• ~{(estimate.estimatedTokens.total / 1000).toFixed(0)}k tokens
+              {' '}• ~${estimate.estimatedCost.total.toFixed(2)}
             </p>
           </div>
 
@@ -315,7 +657,7 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
             </button>
             <button
               onClick={startExperiment}
-              disabled={!config.conversionGoal.description || !config.conversionGoal.target}
+              disabled={!config.conversionGoal.description || (!config.conversionGoal.target && !config.journey.trim())}
               className="flex-1 bg-purple-600 hover:bg-purple-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-semibold py-2 rounded-lg text-sm"
             >
               🐝 Launch Swarm
@@ -386,8 +728,38 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
           )}
         </div>
 
+        {/* Controls */}
+        {experimentId && (
+          <div className="flex gap-2 mt-4">
+            {runState === 'paused' ? (
+              <button
+                onClick={() => controlExperiment('resume')}
+                className="flex-1 bg-purple-600 hover:bg-purple-500 text-white text-sm py-2 rounded-lg transition-colors"
+              >
+                ▶ Resume
+              </button>
+            ) : (
+              <button
+                onClick={() => controlExperiment('pause')}
+                disabled={runState !== 'running'}
+                className="flex-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm py-2 rounded-lg transition-colors"
+              >
+                ⏸ Pause
+              </button>
+            )}
+            <button
+              onClick={() => controlExperiment('cancel')}
+              className="flex-1 bg-gray-800 hover:bg-red-900/50 text-red-300 text-sm py-2 rounded-lg transition-colors"
+            >
+              ✕ Cancel
+            </button>
+          </div>
+        )}
+
         <p className="text-center text-xs text-gray-600 mt-4">
-          Don't close this page while the experiment runs.
+          {runState === 'paused'
+            ? 'Paused — sessions in progress finish, no new ones start.'
+            : 'The experiment keeps running on the server if you close this page.'}
         </p>
       </div>
     );
@@ -412,7 +784,7 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
   }
 
   if (status === 'complete' && results) {
-    return <SwarmResults results={results} sessions={sessions} variants={variants} />;
+    return <SwarmResults results={results} sessions={sessions} variants={variants} experimentId={experimentId} />;
   }
 
   return null;
@@ -421,18 +793,25 @@ export function SwarmExperiment({ url, variants, onComplete }: SwarmExperimentPr
 function SwarmResults({ 
   results, 
   sessions, 
-  variants 
+  variants,
+  experimentId,
 }: { 
   results: ExperimentResults; 
   sessions: SessionSummary[];
   variants: Variant[];
+  experimentId: string | null;
 }) {
-  const [activeTab, setActiveTab] = useState<'overview' | 'sessions' | 'insights'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'forms' | 'heatmaps' | 'sessions' | 'insights'>('overview');
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const hasForms = Object.values(results.variantResults).some(r => r.formFunnel);
+  const hasHeatmaps = Object.values(results.variantResults).some(r => r.heatmaps || r.scrollReach || r.attention);
 
   const winnerVariant = variants.find(v => v.id === results.winner);
-  const controlResult = Object.values(results.variantResults).find(r => 
-    variants.find(v => v.id === r.variantId)?.isControl
-  );
+  const pValueLabel = results.adjustedPValue !== null
+    ? results.multipleComparisonCorrection !== 'none' && results.adjustedPValue !== results.pValue
+      ? `adjusted p = ${results.adjustedPValue.toFixed(3)}`
+      : `p = ${results.adjustedPValue.toFixed(3)}`
+    : 'not tested';
 
   return (
     <div className="bg-gray-900/50 rounded-xl border border-gray-700/50 overflow-hidden">
@@ -466,14 +845,14 @@ function SwarmResults({
             <div>
               <p className="font-medium text-white">
                 {results.isSignificant 
-                  ? `${winnerVariant?.name || results.winner} wins with ${results.confidence}% confidence`
+                  ? `${winnerVariant?.name || results.winner} wins (${pValueLabel})`
                   : `${winnerVariant?.name || results.winner} is leading, but needs more data`
                 }
               </p>
               <p className="text-xs text-gray-400">
                 {results.isSignificant 
-                  ? 'Statistically significant result'
-                  : `Only ${results.confidence}% confident - run more sessions for significance`
+                  ? `Statistically significant at α = ${results.significanceLevel}`
+                  : `Not significant at α = ${results.significanceLevel} (${pValueLabel}) - run more sessions`
                 }
               </p>
             </div>
@@ -481,9 +860,55 @@ function SwarmResults({
         </div>
       )}
 
+      {/* Cancelled notice */}
+      {results.cancelled && (
+        <div className="px-4 py-2 bg-yellow-900/20 border-b border-gray-800/50">
+          <p className="text-xs text-yellow-300">
+            ⚠ Cancelled after {results.totalSessions} sessions — results are partial
+          </p>
+        </div>
+      )}
+
+      {/* Budget notice */}
+      {results.budgetExceeded && (
+        <div className="px-4 py-2 bg-yellow-900/20 border-b border-gray-800/50">
+          <p className="text-xs text-yellow-300">
+            ⚠ Budget reached after {results.totalSessions} sessions — results are partial
+          </p>
+        </div>
+      )}
+
+      {/* Run cost */}
+      {results.usage && (
+        <div className="px-4 py-2 border-b border-gray-800/50">
+          <p className="text-xs text-gray-500">
+            Run cost ≈ ${results.usage.totalCostUsd.toFixed(2)} •{' '}
+            {results.usage.llmCalls} model calls ({(results.usage.inputTokens + results.usage.outputTokens).toLocaleString()} tokens) •{' '}
+            {results.usage.browserMinutes.toFixed(1)} browser min
+          </p>
+        </div>
+      )}
+
+      {/* Early stop notice */}
+      {results.stoppedEarly && (
+        <div className="px-4 py-2 bg-blue-900/20 border-b border-gray-800/50">
+          <p className="text-xs text-blue-300">
+            ⏱ Stopped early ({results.stoppedEarly.reason === 'efficacy' ? 'clear winner' : 'futility'}) after{' '}
+            {results.stoppedEarly.completedSessions} sessions
+            ({(results.stoppedEarly.informationFraction * 100).toFixed(0)}% of planned)
+          </p>
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex border-b border-gray-800">
         <TabButton active={activeTab === 'overview'} onClick={() => setActiveTab('overview')} label="Overview" />
+        {hasForms && (
+          <TabButton active={activeTab === 'forms'} onClick={() => setActiveTab('forms')} label="Form Funnel" />
+        )}
+        {hasHeatmaps && (
+          <TabButton active={activeTab === 'heatmaps'} onClick={() => setActiveTab('heatmaps')} label="Heatmaps" />
+        )}
         <TabButton active={activeTab === 'sessions'} onClick={() => setActiveTab('sessions')} label={`Sessions (${sessions.length})`} />
         <TabButton active={activeTab === 'insights'} onClick={() => setActiveTab('insights')} label="Insights" />
       </div>
@@ -498,9 +923,9 @@ function SwarmResults({
               if (!result) return null;
               
               const isWinner = variant.id === results.winner;
-              const lift = controlResult && !variant.isControl
-                ? ((result.conversionRate - controlResult.conversionRate) / Math.max(controlResult.conversionRate, 0.1)) * 100
-                : null;
+              const comparison = results.comparisons[variant.id];
+              const lift = comparison?.lift.relative ?? null;
+              const bayesian = results.bayesian?.variants[variant.id];
 
               return (
                 <div 
@@ -511,6 +936,16 @@ function SwarmResults({
                     <div className="flex items-center gap-2">
                       {isWinner && <span className="text-green-400">👑</span>}
                       <span className="font-medium text-white">{variant.name}</span>
+                      <span className="text-xs text-gray-500">{result.sessions} sessions</span>
+                      {result.failedSessions > 0 && (
+                        <span
+                          className="text-xs text-yellow-500"
+                          title="Failed sessions; infrastructure failures are excluded from the analysis"
+                        >
+                          {result.failedSessions} failed
+                          {result.excludedSessions > 0 && ` (${result.excludedSessions} excluded)`}
+                        </span>
+                      )}
                       {variant.isControl && (
                         <span className="text-xs bg-gray-700 px-2 py-0.5 rounded text-gray-400">Control</span>
                       )}
@@ -522,10 +957,51 @@ function SwarmResults({
                     )}
                   </div>
 
+                  {comparison && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      Lift vs {variants.find(v => v.id === comparison.baselineId)?.name || comparison.baselineId}:{' '}
+                      {comparison.lift.absolute >= 0 ? '+' : ''}{comparison.lift.absolute.toFixed(1)}pp
+                      {' '}[{comparison.lift.absoluteCI.lower.toFixed(1)}, {comparison.lift.absoluteCI.upper.toFixed(1)}]
+                      {' '}• p = {comparison.conversion.pValue.toFixed(3)}
+                      {comparison.adjustedPValue !== comparison.conversion.pValue && (
+                        <> (adj. {comparison.adjustedPValue.toFixed(3)})</>
+                      )}
+                      {comparison.isSignificant && <span className="text-green-400"> • significant</span>}
+                    </p>
+                  )}
+
+                  {bayesian && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      {bayesian.probabilityToBeatBaseline !== null && (
+                        <>P(beats control) {bayesian.probabilityToBeatBaseline.toFixed(0)}% • </>
+                      )}
+                      P(best) {bayesian.probabilityToBeBest.toFixed(0)}%
+                      {' '}• Expected loss {bayesian.expectedLoss.toFixed(2)}pp
+                    </p>
+                  )}
+
+                  {result.funnel && (
+                    <p className="text-xs text-gray-500 mb-3">
+                      {result.funnel.map((step, i) => (
+                        <span key={step.step}>
+                          {i > 0 && ' → '}
+                          {step.step} <span className="text-purple-400">{step.rate.toFixed(0)}%</span>
+                          {step.dropOff > 0 && <span className="text-red-400"> (−{step.dropOff.toFixed(0)}%)</span>}
+                        </span>
+                      ))}
+                    </p>
+                  )}
+
                   <div className="grid grid-cols-4 gap-2 text-center">
                     <div>
                       <p className="text-lg font-bold text-purple-400">{result.conversionRate.toFixed(1)}%</p>
                       <p className="text-xs text-gray-500">Conversion</p>
+                      <p className="text-[10px] text-gray-600">
+                        {result.conversionRateCI.lower.toFixed(0)}–{result.conversionRateCI.upper.toFixed(0)}%
+                        {result.weightedConversionRate !== undefined && (
+                          <> • IPW {result.weightedConversionRate.toFixed(1)}%</>
+                        )}
+                      </p>
                     </div>
                     <div>
                       <p className="text-lg font-bold text-purple-400">{(result.avgTimeOnPage / 1000).toFixed(1)}s</p>
@@ -546,7 +1022,116 @@ function SwarmResults({
           </div>
         )}
 
-        {activeTab === 'sessions' && (
+        {activeTab === 'forms' && (
+          <div className="space-y-4">
+            {variants.map(variant => {
+              const funnel = results.variantResults[variant.id]?.formFunnel;
+              if (!funnel) return null;
+
+              return (
+                <div key={variant.id} className="bg-gray-800/30 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-3">
+                    <span className="font-medium text-white">{variant.name}</span>
+                    <span className="text-xs text-gray-500">
+                      {funnel.submitted}/{funnel.started} submitted •{' '}
+                      {(funnel.avgDurationMs / 1000).toFixed(1)}s on form
+                    </span>
+                  </div>
+
+                  <div className="space-y-2">
+                    {funnel.fields.map(step => (
+                      <div key={step.field}>
+                        <div className="flex items-center justify-between gap-2 text-xs mb-1">
+                          <span className="text-gray-300 truncate">{step.field}</span>
+                          <span className="text-gray-500 shrink-0">
+                            {step.completed}/{step.reached} completed • {(step.avgTimeMs / 1000).toFixed(1)}s
+                            {step.errors > 0 && <span className="text-yellow-400"> • {step.errors} errors</span>}
+                            {step.corrections > 0 && <> • {step.corrections} corrections</>}
+                            {step.abandonedHere > 0 && <span className="text-red-400"> • {step.abandonedHere} gave up</span>}
+                          </span>
+                        </div>
+                        <div className="h-2 bg-gray-700/50 rounded-full overflow-hidden">
+                          <div
+                            className="h-full bg-purple-500/70"
+                            style={{ width: `${(step.reached / funnel.started) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {activeTab === 'heatmaps' && (
+          <div className="space-y-4">
+            <ScrollReachChart variants={variants} results={results.variantResults} />
+
+            {variants.map(variant => {
+              const heatmaps = results.variantResults[variant.id]?.heatmaps;
+              const attention = results.variantResults[variant.id]?.attention;
+              if (!heatmaps && !attention) return null;
+
+              return (
+                <div key={variant.id} className="bg-gray-800/30 rounded-lg p-4 space-y-4">
+                  <p className="font-medium text-white">{variant.name}</p>
+                  {heatmaps && (
+                    <div className="grid grid-cols-2 gap-4">
+                      {heatmaps.map(heatmap => (
+                        <div key={heatmap.device} className="space-y-2">
+                          <p className="text-xs text-gray-500">
+                            {heatmap.device} • {heatmap.sessions} sessions •{' '}
+                            <span className="text-red-400">{heatmap.points.filter(p => p.type === 'click').length} clicks</span> •{' '}
+                            <span className="text-yellow-400">{heatmap.points.filter(p => p.type === 'hover').length} hovers</span>
+                          </p>
+                          <ClickHeatmap heatmap={heatmap} />
+                          <div className="space-y-1">
+                            {heatmap.elements.slice(0, 5).map(element => (
+                              <div key={element.target} className="flex items-center justify-between gap-2 text-xs">
+                                <span className="text-gray-300 truncate">{element.target}</span>
+                                <span className="text-gray-500 shrink-0">
+                                  {element.clicks} clicks{element.hovers > 0 && <> • {element.hovers} hovers</>}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {attention && (
+                    <div className="space-y-2">
+                      <p className="text-xs text-gray-400 font-medium">Reading by section</p>
+                      {attention.map(section => (
+                        <div key={`${section.url}#${section.section}`}>
+                          <div className="flex items-center justify-between gap-2 text-xs mb-1">
+                            <span className="text-gray-300 truncate" title={section.url}>{section.section}</span>
+                            <span className="text-gray-500 shrink-0">
+                              {section.read} read • {section.skimmed} skimmed • {(section.avgDwellMs / 1000).toFixed(1)}s
+                            </span>
+                          </div>
+                          <div className="h-2 bg-gray-700/50 rounded-full overflow-hidden flex">
+                            <div className="h-full bg-purple-500/70" style={{ width: `${(section.read / section.sessions) * 100}%` }} />
+                            <div className="h-full bg-purple-500/25" style={{ width: `${(section.skimmed / section.sessions) * 100}%` }} />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {activeTab === 'sessions' && replaying && experimentId && (
+          <SessionReplay experimentId={experimentId} sessionId={replaying} onClose={() => setReplaying(null)} />
+        )}
+
+        {activeTab === 'sessions' && !replaying && (
           <div className="space-y-2 max-h-80 overflow-y-auto">
             {sessions.map(session => (
               <div 
@@ -579,6 +1164,14 @@ function SwarmResults({
                       {session.exitReason?.slice(0, 30)}...
                     </span>
                   )}
+                  {session.recorded && experimentId && (
+                    <button
+                      onClick={() => setReplaying(session.id)}
+                      className="text-xs text-purple-400 hover:text-purple-300"
+                    >
+                      ▶ Replay
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
@@ -621,6 +1214,284 @@ function SwarmResults({
   );
 }
 
+/**
+ * Clicks (red) and hovers (yellow) drawn over the landing page as one
+ * device saw it
+ */
+function ClickHeatmap({ heatmap }: { heatmap: VariantHeatmap }) {
+  return (
+    <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-800">
+      <div
+        className="relative w-full bg-gray-950 overflow-hidden"
+        style={{ aspectRatio: `${heatmap.width} / ${heatmap.height}` }}
+      >
+        {heatmap.screenshot && (
+          <Image
+            src={`data:image/jpeg;base64,${heatmap.screenshot}`}
+            alt={`Landing page on ${heatmap.device}`}
+            fill
+            unoptimized
+            className="opacity-60"
+          />
+        )}
+        {heatmap.points.map((point, i) => (
+          <span
+            key={i}
+            className="absolute w-7 h-7 -translate-x-1/2 -translate-y-1/2 rounded-full pointer-events-none"
+            style={{
+              left: `${(point.x / heatmap.width) * 100}%`,
+              top: `${(point.y / heatmap.height) * 100}%`,
+              background: point.type === 'click'
+                ? 'radial-gradient(circle, rgba(239, 68, 68, 0.7), rgba(239, 68, 68, 0) 70%)'
+                : 'radial-gradient(circle, rgba(250, 204, 21, 0.5), rgba(250, 204, 21, 0) 70%)',
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const CURVE_COLORS = ['#a855f7', '#22c55e', '#3b82f6', '#f97316', '#ec4899'];
+
+/**
+ * Share of each variant's sessions that scrolled the landing page to each depth
+ */
+function ScrollReachChart({
+  variants,
+  results,
+}: {
+  variants: Variant[];
+  results: Record<string, VariantResult>;
+}) {
+  const curves = variants.filter(v => results[v.id]?.scrollReach);
+  if (curves.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-4">
+      <p className="font-medium text-white mb-1">Scroll reach</p>
+      <p className="text-xs text-gray-500 mb-3">Share of sessions that scrolled at least this far down the landing page</p>
+      <svg viewBox="0 0 100 50" preserveAspectRatio="none" className="w-full h-32">
+        {[0, 25, 50].map(y => (
+          <line key={y} x1={0} x2={100} y1={y} y2={y} stroke="#374151" strokeWidth={0.3} />
+        ))}
+        {curves.map((variant, i) => (
+          <polyline
+            key={variant.id}
+            fill="none"
+            stroke={CURVE_COLORS[i % CURVE_COLORS.length]}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            points={results[variant.id].scrollReach!
+              .map(p => `${p.depthPercent},${50 - p.reached / 2}`)
+              .join(' ')}
+          />
+        ))}
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-600 mt-1">
+        <span>Top of page</span>
+        <span>Halfway</span>
+        <span>Bottom</span>
+      </div>
+      <div className="flex flex-wrap gap-3 mt-2">
+        {curves.map((variant, i) => (
+          <span key={variant.id} className="text-xs text-gray-400 flex items-center gap-1">
+            <span className="w-3 h-0.5" style={{ background: CURVE_COLORS[i % CURVE_COLORS.length] }} />
+            {variant.name}: {results[variant.id].scrollReach!.find(p => p.depthPercent === 50)?.reached.toFixed(0)}% reached halfway
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Steps through a recorded session frame by frame, showing what the persona
+ * saw next to what they did and why
+ */
+function SessionReplay({
+  experimentId,
+  sessionId,
+  onClose,
+}: {
+  experimentId: string;
+  sessionId: string;
+  onClose: () => void;
+}) {
+  const [replay, setReplay] = useState<SessionReplayData | null>(null);
+  const [error, setError] = useState('');
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/experiments/${experimentId}/sessions/${sessionId}/recording`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || 'Failed to load recording');
+        if (!cancelled) setReplay(data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+    return () => { cancelled = true; };
+  }, [experimentId, sessionId]);
+
+  // Autoplay advances a frame every couple of seconds and stops at the end
+  const atEnd = frameIndex >= (replay?.recording.frames.length ?? 0) - 1;
+  const autoplaying = playing && !atEnd;
+  useEffect(() => {
+    if (!autoplaying) return;
+    const timer = setTimeout(() => setFrameIndex(i => i + 1), 2000);
+    return () => clearTimeout(timer);
+  }, [autoplaying, frameIndex]);
+
+  if (error) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-red-400">{error}</p>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-200">← Back to sessions</button>
+      </div>
+    );
+  }
+  if (!replay) {
+    return <p className="text-sm text-gray-500">Loading recording...</p>;
+  }
+
+  const { viewport, frames } = replay.recording;
+  const frame = frames[frameIndex];
+  const action = replay.actions[frame.actionIndex];
+  // Frames are shown at a fixed width; DOM snapshots render at the session's viewport and are scaled down
+  const displayWidth = 360;
+  const scale = displayWidth / viewport.width;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-white">{replay.personaName}</p>
+          <p className="text-xs text-gray-500">
+            {replay.converted ? 'Converted' : replay.exitReason || 'Did not convert'}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-200">← Back to sessions</button>
+      </div>
+
+      <div className="flex gap-4">
+        <div
+          className="shrink-0 bg-gray-950 rounded-lg overflow-hidden border border-gray-800"
+          style={{ width: displayWidth, height: viewport.height * scale }}
+        >
+          {frame.html ? (
+            <iframe
+              key={frameIndex}
+              ref={iframeRef}
+              srcDoc={frame.html}
+              // Same-origin so the frame can be scrolled to where the persona was; scripts stay off
+              sandbox="allow-same-origin"
+              onLoad={() => iframeRef.current?.contentWindow?.scrollTo(0, frame.scrollY)}
+              title={`Frame ${frameIndex + 1}`}
+              style={{
+                width: viewport.width,
+                height: viewport.height,
+                transform: `scale(${scale})`,
+                transformOrigin: 'top left',
+                border: 0,
+                pointerEvents: 'none',
+              }}
+            />
+          ) : frame.screenshot ? (
+            <Image
+              src={`data:image/jpeg;base64,${frame.screenshot}`}
+              alt={`Frame ${frameIndex + 1}`}
+              width={viewport.width}
+              height={viewport.height}
+              unoptimized
+              className="w-full h-auto"
+            />
+          ) : null}
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-2">
+          <p className="text-xs text-gray-500 truncate" title={frame.url}>{frame.url}</p>
+          {action ? (
+            <>
+              <p className="text-sm text-white">
+                <span className="text-purple-400 font-medium">{action.type}</span>
+                {action.target && <span className="text-gray-300"> {action.target}</span>}
+                {action.value && <span className="text-gray-500"> “{action.value}”</span>}
+              </p>
+              {action.details && <p className="text-xs text-gray-400">{action.details}</p>}
+              {action.reasoning && (
+                <div className="bg-gray-800/50 rounded-lg p-3">
+                  <p className="text-xs text-gray-500 mb-1">Reasoning</p>
+                  <p className="text-sm text-gray-300 italic">“{action.reasoning}”</p>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-gray-400">End of session</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setFrameIndex(i => Math.max(0, i - 1))}
+          disabled={frameIndex === 0}
+          className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-xs px-3 py-1.5 rounded-lg"
+        >
+          ◀ Prev
+        </button>
+        <button
+          onClick={() => {
+            if (atEnd) setFrameIndex(0);
+            setPlaying(atEnd || !autoplaying);
+          }}
+          className="bg-purple-600 hover:bg-purple-500 text-white text-xs px-3 py-1.5 rounded-lg"
+        >
+          {autoplaying ? '⏸ Pause' : '▶ Play'}
+        </button>
+        <button
+          onClick={() => setFrameIndex(i => Math.min(frames.length - 1, i + 1))}
+          disabled={atEnd}
+          className="bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-xs px-3 py-1.5 rounded-lg"
+        >
+          Next ▶
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={frameIndex}
+          onChange={(e) => setFrameIndex(Number(e.target.value))}
+          className="flex-1 accent-purple-500"
+        />
+        <span className="text-xs text-gray-500 shrink-0">
+          {frameIndex + 1}/{frames.length} • {((frame.timestamp - frames[0].timestamp) / 1000).toFixed(1)}s
+        </span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The configured goal, or a funnel when journey steps are given
+ */
+function conversionGoalFor(
+  goal: { type: 'click'; target: string; description: string },
+  journey: string
+) {
+  const steps = journey.split(',').map(s => s.trim()).filter(Boolean).map(target => ({
+    name: target,
+    type: /^(\/|https?:)/.test(target) ? 'navigate' as const : /^submit$/i.test(target) ? 'submit' as const : 'click' as const,
+    target: /^submit$/i.test(target) ? '' : target,
+  }));
+  if (steps.length === 0) return goal;
+  return { ...goal, type: 'funnel' as const, target: steps[steps.length - 1].target, steps };
+}
+
 function TabButton({ active, onClick, label }: { active: boolean; onClick: () => void; label: string }) {
   return (
     <button
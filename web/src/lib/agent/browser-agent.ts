@@ -4,7 +4,7 @@
  * This is the core agent that simulates user behavior on a webpage.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMClient, UsageMeter, getLLMClient } from '../llm';
 import type {
   AgentPersona,
   AgentState,
@@ -20,7 +20,9 @@ type StagehandInstance = any;
 
 export class BrowserAgent {
   private persona: AgentPersona;
-  private anthropic: Anthropic;
+  private llm: LLMClient;
+  /** Tokens, latency and cost of every model call this instance made */
+  readonly usage = new UsageMeter();
   private stagehand: StagehandInstance | null = null;
   private state: AgentState;
   private maxActions: number;
@@ -30,13 +32,14 @@ export class BrowserAgent {
     options: {
       maxActions?: number;
       anthropicApiKey?: string;
+      llm?: LLMClient;
     } = {}
   ) {
     this.persona = persona;
     this.maxActions = options.maxActions || 20;
-    this.anthropic = new Anthropic({
-      apiKey: options.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
-    });
+    this.llm = options.llm || (options.anthropicApiKey
+      ? new LLMClient({ anthropicApiKey: options.anthropicApiKey })
+      : getLLMClient());
     
     this.state = {
       sessionId: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -64,8 +67,9 @@ export class BrowserAgent {
     const startTime = Date.now();
     
     try {
-      // Initialize Stagehand
+      // Initialize Stagehand on the same browsing model, endpoint and key
       const { Stagehand } = await import('@browserbasehq/stagehand');
+      const browsing = this.llm.resolve('browsing');
       
       this.stagehand = new Stagehand({
         env: options.browserbaseApiKey ? 'BROWSERBASE' : 'LOCAL',
@@ -73,7 +77,11 @@ export class BrowserAgent {
         localBrowserLaunchOptions: {
           headless: options.headless ?? true,
         },
-        model: 'claude-3-5-sonnet-latest',
+        model: {
+          modelName: `${browsing.provider === 'openai-compatible' ? 'openai' : 'anthropic'}/${browsing.model}`,
+          apiKey: browsing.apiKey,
+          baseURL: browsing.baseUrl,
+        },
       });
 
       await this.stagehand.init();
@@ -140,23 +148,12 @@ export class BrowserAgent {
   }
 
   /**
-   * Use Claude to decide what action to take next
+   * Ask the browsing model what action to take next
    */
   private async decideNextAction(): Promise<AgentAction> {
     const prompt = this.buildDecisionPrompt();
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 500,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
+    const { text } = await this.llm.complete({ role: 'browsing', prompt, maxTokens: 500, meter: this.usage });
     return this.parseActionResponse(text);
   }
 
@@ -4,7 +4,7 @@
  * This agent acts as a CRO expert, interpreting data and generating hypotheses.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMClient, UsageMeter, getLLMClient } from '../llm';
 import type {
   Experiment,
   ExperimentResults,
@@ -15,13 +15,13 @@ import type {
 } from './types';
 
 export class ResearcherAgent {
-  private anthropic: Anthropic;
+  private llm: LLMClient;
+  /** Tokens, latency and cost of every model call this instance made */
+  readonly usage = new UsageMeter();
   private maxRetries = 3;
 
-  constructor(apiKey?: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(apiKey?: string, llm?: LLMClient) {
+    this.llm = llm || (apiKey ? new LLMClient({ anthropicApiKey: apiKey }) : getLLMClient());
   }
 
   /**
@@ -75,20 +75,10 @@ export class ResearcherAgent {
   ): Promise<ResearcherAnalysis['hypotheses']> {
     const prompt = this.buildHypothesisPrompt(pageUrl, pageContent, previousResults);
 
-    const response = await this.callWithRetry(() => 
-      this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 2000,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      })
+    const { text } = await this.callWithRetry(() => 
+      this.llm.complete({ role: 'research', prompt, maxTokens: 2000, meter: this.usage })
     );
 
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
     return this.parseHypotheses(text);
   }
 
@@ -142,15 +132,10 @@ Example style change:
 
 Use !important to override existing styles. Use broad selectors that will match.`;
 
-    const response = await this.callWithRetry(() =>
-      this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
-        messages: [{ role: 'user', content: prompt }],
-      })
+    const { text } = await this.callWithRetry(() =>
+      this.llm.complete({ role: 'research', prompt, maxTokens: 1500, meter: this.usage })
     );
 
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
     return this.parseVariant(text, hypothesis);
   }
 
@@ -253,15 +238,10 @@ Provide analysis as JSON:
   "recommendations": ["recommendation 1", ...]
 }`;
 
-    const response = await this.callWithRetry(() =>
-      this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
-        messages: [{ role: 'user', content: prompt }],
-      })
+    const { text } = await this.callWithRetry(() =>
+      this.llm.complete({ role: 'research', prompt, maxTokens: 1500, meter: this.usage })
     );
 
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
     return this.parseAnalysis(text, experiment.id, results);
   }
 
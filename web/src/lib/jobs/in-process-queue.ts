@@ -0,0 +1,93 @@
+/**
+ * In-Process Job Queue
+ * 
+ * JobQueue backed by memory in the current Node process. Suitable for
+ * local development and single-instance deployments; queued jobs are lost
+ * on restart, but the worker re-enqueues unfinished experiments from the
+ * store when it starts.
+ */
+
+import type { ExperimentJob, JobHandler, JobQueue } from './types';
+
+export class InProcessJobQueue implements JobQueue {
+  private jobs = new Map<string, ExperimentJob>();
+  private pending: string[] = [];
+  private handler: JobHandler | null = null;
+  private concurrency = 1;
+  private active = 0;
+
+  async enqueue(experimentId: string): Promise<ExperimentJob> {
+    const existing = this.jobs.get(experimentId);
+    if (existing && (existing.state === 'queued' || existing.state === 'running')) {
+      return existing;
+    }
+
+    const job: ExperimentJob = {
+      experimentId,
+      state: 'queued',
+      attempts: existing?.attempts ?? 0,
+      enqueuedAt: Date.now(),
+    };
+    this.jobs.set(experimentId, job);
+    this.pending.push(experimentId);
+    this.drain();
+
+    return job;
+  }
+
+  async cancel(experimentId: string): Promise<boolean> {
+    const job = this.jobs.get(experimentId);
+    if (!job || (job.state !== 'queued' && job.state !== 'running')) return false;
+
+    if (job.state === 'queued') {
+      this.pending = this.pending.filter(id => id !== experimentId);
+      job.finishedAt = Date.now();
+    }
+    job.state = 'cancelled';
+    return true;
+  }
+
+  async getJob(experimentId: string): Promise<ExperimentJob | null> {
+    return this.jobs.get(experimentId) ?? null;
+  }
+
+  process(handler: JobHandler, options?: { concurrency?: number }): void {
+    if (this.handler) {
+      throw new Error('A handler is already processing this queue');
+    }
+    this.handler = handler;
+    this.concurrency = Math.max(1, options?.concurrency ?? 1);
+    this.drain();
+  }
+
+  /**
+   * Start pending jobs while there is free capacity
+   */
+  private drain(): void {
+    while (this.handler && this.active < this.concurrency && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!);
+      if (!job || job.state !== 'queued') continue;
+
+      job.state = 'running';
+      job.attempts++;
+      job.startedAt = Date.now();
+      job.error = undefined;
+      this.active++;
+
+      this.handler(job)
+        .then(() => {
+          if (job.state === 'running') job.state = 'completed';
+        })
+        .catch(error => {
+          job.state = 'failed';
+          job.error = error instanceof Error ? error.message : 'Unknown error';
+          console.error(`[InProcessJobQueue] Job ${job.experimentId} failed:`, job.error);
+        })
+        .finally(() => {
+          job.finishedAt = Date.now();
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Jobs Module
+ * 
+ * Queues experiments so they run outside the request that submitted them.
+ * The default backend is in-process, with a worker started alongside it.
+ * With SWARM_WORKER=external the web server only stores submissions, and
+ * a standalone worker (`npm run worker`) picks them up from the store.
+ */
+
+import { getExperimentStore } from '../store';
+import { InProcessJobQueue } from './in-process-queue';
+import { ExperimentWorker } from './worker';
+import type { JobQueue } from './types';
+
+export * from './types';
+export { InProcessJobQueue } from './in-process-queue';
+export { ExperimentWorker } from './worker';
+export { serializeResults } from './serialize';
+
+// Kept on globalThis so dev-server module reloads don't start a second worker
+const globalJobs = globalThis as typeof globalThis & {
+  __swarmJobQueue?: JobQueue;
+  __swarmWorker?: ExperimentWorker;
+};
+
+/**
+ * Whether experiments run in a standalone worker process rather than
+ * alongside the web server
+ */
+export function usesExternalWorker(): boolean {
+  return process.env.SWARM_WORKER === 'external';
+}
+
+/**
+ * Shared queue for API routes, with its in-process worker running (unless
+ * a standalone worker runs experiments instead)
+ */
+export function getJobQueue(): JobQueue {
+  if (!globalJobs.__swarmJobQueue) {
+    const queue = new InProcessJobQueue();
+    const worker = new ExperimentWorker({
+      queue,
+      store: getExperimentStore(),
+      concurrency: Number(process.env.SWARM_WORKER_CONCURRENCY) || 1,
+    });
+    if (!usesExternalWorker()) {
+      worker.start().catch(error => {
+        console.error('[Jobs] Failed to start worker:', error);
+      });
+    }
+    globalJobs.__swarmJobQueue = queue;
+    globalJobs.__swarmWorker = worker;
+  }
+  return globalJobs.__swarmJobQueue;
+}
+
+/**
+ * The in-process worker, for cancelling, pausing and resuming its runs
+ */
+export function getExperimentWorker(): ExperimentWorker {
+  getJobQueue();
+  return globalJobs.__swarmWorker!;
+}
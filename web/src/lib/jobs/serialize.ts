@@ -0,0 +1,46 @@
+/**
+ * Job Payloads
+ * 
+ * Shapes experiment results for API responses: full analysis, but only a
+ * summary of each session to save bandwidth.
+ */
+
+import type { ExperimentResults } from '../swarm/types';
+
+/**
+ * Results as returned by the experiments API and its event stream
+ */
+export function serializeResults(results: ExperimentResults) {
+  return {
+    experimentId: results.experimentId,
+    winner: results.winner,
+    baseline: results.baseline,
+    pValue: results.pValue,
+    adjustedPValue: results.adjustedPValue,
+    significanceLevel: results.significanceLevel,
+    multipleComparisonCorrection: results.multipleComparisonCorrection,
+    isSignificant: results.isSignificant,
+    insights: results.insights,
+    recommendations: results.recommendations,
+    variantResults: results.variantResults,
+    comparisons: results.comparisons,
+    bayesian: results.bayesian,
+    stoppedEarly: results.stoppedEarly,
+    cancelled: results.cancelled,
+    budgetExceeded: results.budgetExceeded,
+    usage: results.usage,
+    totalSessions: results.sessions.length,
+    sessions: results.sessions.map(s => ({
+      id: s.id,
+      personaName: s.persona.name,
+      variantId: s.variantId,
+      converted: s.converted,
+      timeOnPage: s.metrics.timeOnPage,
+      scrollDepth: s.metrics.scrollDepthPercent,
+      clicks: s.metrics.clickCount,
+      impression: s.impression,
+      exitReason: s.exitReason,
+      recorded: s.recorded,
+    })),
+  };
+}
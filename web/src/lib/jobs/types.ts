@@ -0,0 +1,63 @@
+/**
+ * Job Types
+ * 
+ * Experiments run as queued jobs outside the request that submitted them.
+ * The queue only tracks scheduling; progress and results live in the
+ * experiment store so any process can report on them.
+ */
+
+/**
+ * Lifecycle of a queued experiment
+ */
+export type JobState = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * A queued experiment run
+ */
+export interface ExperimentJob {
+  /** Experiment this job runs (doubles as the job ID) */
+  experimentId: string;
+  
+  /** Current state */
+  state: JobState;
+  
+  /** Times a worker has picked this job up */
+  attempts: number;
+  
+  /** When the job was submitted */
+  enqueuedAt: number;
+  
+  /** When a worker last started it */
+  startedAt?: number;
+  
+  /** When it finished (either way) */
+  finishedAt?: number;
+  
+  /** Error from the last failed attempt */
+  error?: string;
+}
+
+/**
+ * Runs one job. Rejecting marks the job failed.
+ */
+export type JobHandler = (job: ExperimentJob) => Promise<void>;
+
+/**
+ * Pluggable job queue backend
+ */
+export interface JobQueue {
+  /** Submit an experiment; returns the existing job if it is already queued or running */
+  enqueue(experimentId: string): Promise<ExperimentJob>;
+  
+  /**
+   * Mark a job cancelled. Queued jobs are dropped; stopping a running job
+   * is up to the worker running it. Returns false if the job already finished.
+   */
+  cancel(experimentId: string): Promise<boolean>;
+  
+  /** Look up a job by experiment ID */
+  getJob(experimentId: string): Promise<ExperimentJob | null>;
+  
+  /** Start handing jobs to `handler`, at most `concurrency` at a time */
+  process(handler: JobHandler, options?: { concurrency?: number }): void;
+}
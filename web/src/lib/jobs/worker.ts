@@ -0,0 +1,207 @@
+/**
+ * Experiment Worker
+ * 
+ * Consumes a JobQueue and runs each experiment with SwarmRunner, resuming
+ * from whatever the store already holds. Works the same whether it shares
+ * the web server's process (in-process queue) or runs on its own.
+ */
+
+import {
+  RunControl,
+  SwarmRunner,
+  createRateLimiters,
+  decisionProviderFor,
+  getDefaultBrowserProvider,
+  isStaleStatus,
+  type BrowserProvider,
+  type RateLimiters,
+} from '../swarm';
+import type { ExperimentStore } from '../store';
+import type { ExperimentJob, JobQueue } from './types';
+
+export class ExperimentWorker {
+  private queue: JobQueue;
+  private store: ExperimentStore;
+  private concurrency: number;
+  private rateLimiters: RateLimiters;
+  private browser: BrowserProvider;
+  private controls = new Map<string, RunControl>();
+
+  constructor(config: {
+    queue: JobQueue;
+    store: ExperimentStore;
+    /** Experiments run at the same time (default 1) */
+    concurrency?: number;
+    /** Rate limiters shared by every experiment this worker runs (default from env) */
+    rateLimiters?: RateLimiters;
+    /** Browser provider shared by every experiment this worker runs (default from env) */
+    browser?: BrowserProvider;
+  }) {
+    this.queue = config.queue;
+    this.store = config.store;
+    this.concurrency = config.concurrency || 1;
+    this.rateLimiters = config.rateLimiters || createRateLimiters();
+    this.browser = config.browser || getDefaultBrowserProvider();
+  }
+
+  /**
+   * Begin processing jobs, re-enqueueing experiments a previous worker left unfinished
+   */
+  async start(): Promise<void> {
+    this.queue.process(job => this.runJob(job), { concurrency: this.concurrency });
+    await this.recover();
+  }
+
+  /**
+   * Enqueue stored experiments that never reached a terminal state and
+   * that this worker hasn't already picked up. With `staleOnly`, runs are
+   * only taken over once their runner has stopped refreshing their status.
+   */
+  async recover(options: { staleOnly?: boolean } = {}): Promise<number> {
+    const experiments = await this.store.listExperiments();
+    const unfinished = experiments.filter(e => {
+      if (!e.status) return false;
+      if (e.status.state === 'pending') return true;
+      if (e.status.state !== 'running' && e.status.state !== 'analyzing') return false;
+      return !options.staleOnly || isStaleStatus(e.status);
+    });
+
+    let recovered = 0;
+    for (const experiment of unfinished) {
+      if (await this.queue.getJob(experiment.id)) continue;
+      console.log(`[ExperimentWorker] Recovering ${experiment.id} (${experiment.status!.state})`);
+      await this.queue.enqueue(experiment.id);
+      recovered++;
+    }
+    return recovered;
+  }
+
+  /**
+   * Keep picking up experiments that other processes submit to the store,
+   * runs whose runner has gone and control requests, checking every
+   * `intervalMs`. Returns a function that stops watching.
+   */
+  watch(intervalMs: number): () => void {
+    const timer = setInterval(() => {
+      this.recover({ staleOnly: true })
+        .then(() => this.applyControlRequests())
+        .catch(error => {
+          console.error('[ExperimentWorker] Polling the store failed:', error instanceof Error ? error.message : 'Unknown error');
+        });
+    }, intervalMs);
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Apply the control requests a web server stored for experiments it
+   * can't reach (SWARM_WORKER=external). Requests for runs another live
+   * worker holds are left for that worker.
+   */
+  async applyControlRequests(): Promise<number> {
+    const experiments = await this.store.listExperiments();
+
+    let applied = 0;
+    for (const { id, status } of experiments) {
+      if (!status) continue;
+      const requested = await this.store.getControlRequest(id);
+      if (!requested) continue;
+
+      const finished = ['completed', 'cancelled', 'failed'].includes(status.state);
+      if (!finished && !this.controls.has(id) && status.state !== 'pending' && !isStaleStatus(status)) continue;
+
+      const done = finished
+        ? false
+        : requested === 'cancelled'
+          ? await this.cancel(id)
+          : requested === 'paused'
+            ? this.pause(id)
+            : await this.resume(id);
+      await this.store.saveControlRequest(id, null);
+
+      if (done) {
+        console.log(`[ExperimentWorker] Applied ${requested} to ${id}`);
+        applied++;
+      } else {
+        console.warn(`[ExperimentWorker] Dropped ${requested} request for ${id} in state '${status.state}'`);
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Cancel a queued or running experiment. A running one stops promptly
+   * and its completed sessions are analyzed as partial results.
+   */
+  async cancel(experimentId: string): Promise<boolean> {
+    const control = this.controls.get(experimentId);
+    const cancelled = await this.queue.cancel(experimentId);
+
+    if (control) {
+      control.cancel();
+      return true;
+    }
+
+    // Never started here: record the cancellation so it isn't recovered later
+    const status = await this.store.getStatus(experimentId);
+    if (!status || !['pending', 'running', 'paused'].includes(status.state)) return cancelled;
+    await this.store.saveStatus({ ...status, state: 'cancelled', estimatedTimeRemaining: 0 });
+    return true;
+  }
+
+  /**
+   * Pause a running experiment after its in-flight sessions finish
+   */
+  pause(experimentId: string): boolean {
+    const control = this.controls.get(experimentId);
+    if (!control || control.state !== 'running') return false;
+    control.pause();
+    return true;
+  }
+
+  /**
+   * Resume a paused experiment. One paused by a worker that has since
+   * stopped is re-enqueued and continues from the store.
+   */
+  async resume(experimentId: string): Promise<boolean> {
+    const control = this.controls.get(experimentId);
+    if (control) {
+      if (control.state !== 'paused') return false;
+      control.resume();
+      return true;
+    }
+
+    const status = await this.store.getStatus(experimentId);
+    if (status?.state !== 'paused') return false;
+    await this.queue.enqueue(experimentId);
+    return true;
+  }
+
+  /**
+   * Run one experiment to completion
+   */
+  private async runJob(job: ExperimentJob): Promise<void> {
+    const config = await this.store.getConfig(job.experimentId);
+    if (!config) {
+      throw new Error(`Experiment not found: ${job.experimentId}`);
+    }
+
+    console.log(`[ExperimentWorker] Running ${job.experimentId} (attempt ${job.attempts})`);
+
+    const runner = new SwarmRunner({
+      maxConcurrent: config.maxConcurrent,
+      rateLimiters: this.rateLimiters,
+      store: this.store,
+      browser: this.browser,
+      decisions: await decisionProviderFor(config, this.store),
+    });
+
+    const control = new RunControl();
+    this.controls.set(job.experimentId, control);
+    try {
+      const results = await runner.resumeExperiment(job.experimentId, undefined, control);
+      console.log(`[ExperimentWorker] ${job.experimentId} ${results.cancelled ? 'cancelled' : 'complete'}. Winner: ${results.winner || 'none'}`);
+    } finally {
+      this.controls.delete(job.experimentId);
+    }
+  }
+}
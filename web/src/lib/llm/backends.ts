@@ -0,0 +1,129 @@
+/**
+ * LLM Backends
+ *
+ * Anthropic through its SDK, and any server speaking the OpenAI chat
+ * completions API (Ollama, vLLM, LM Studio, OpenAI itself) over fetch.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { CompletionRequest, CompletionResult, LLMBackend } from './types';
+
+type BackendRequest = Pick<CompletionRequest, 'prompt' | 'images' | 'maxTokens' | 'signal'>;
+type BackendResult = Omit<CompletionResult, 'latencyMs' | 'costUsd'>;
+
+/**
+ * Error from a non-Anthropic backend, carrying the HTTP status if there was one
+ */
+export class LLMError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.status = status;
+  }
+}
+
+/**
+ * Claude via the Anthropic SDK
+ */
+export class AnthropicBackend implements LLMBackend {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(config?: { apiKey?: string }) {
+    this.client = new Anthropic({
+      apiKey: config?.apiKey || process.env.ANTHROPIC_API_KEY,
+    });
+  }
+
+  async complete(model: string, request: BackendRequest): Promise<BackendResult> {
+    const response = await this.client.messages.create({
+      model,
+      max_tokens: request.maxTokens,
+      messages: [{
+        role: 'user',
+        content: request.images?.length
+          ? [
+              ...request.images.map(image => ({
+                type: 'image' as const,
+                source: { type: 'base64' as const, media_type: image.mediaType, data: image.data },
+              })),
+              { type: 'text' as const, text: request.prompt },
+            ]
+          : request.prompt,
+      }],
+    }, { signal: request.signal });
+
+    const text = response.content[0]?.type === 'text' ? response.content[0].text : '';
+    return {
+      text,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * OpenAI-compatible chat completions endpoint
+ */
+export class OpenAICompatibleBackend implements LLMBackend {
+  readonly name = 'openai-compatible';
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config?: { baseUrl?: string; apiKey?: string }) {
+    this.baseUrl = (config?.baseUrl || process.env.LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+    this.apiKey = config?.apiKey || process.env.LLM_API_KEY || undefined;
+  }
+
+  async complete(model: string, request: BackendRequest): Promise<BackendResult> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens,
+        messages: [{
+          role: 'user',
+          content: request.images?.length
+            ? [
+                ...request.images.map(image => ({
+                  type: 'image_url',
+                  image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+                })),
+                { type: 'text', text: request.prompt },
+              ]
+            : request.prompt,
+        }],
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new LLMError(`${this.baseUrl} returned HTTP ${response.status}: ${body.slice(0, 200)}`, response.status);
+    }
+
+    const data = await response.json() as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string | null } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      model: data.model || model,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens || 0,
+        outputTokens: data.usage?.completion_tokens || 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * LLM Client
+ *
+ * Routes each completion to the model configured for its role. Settings
+ * come from the config passed in, then the environment (a role-specific
+ * setting beats a default one):
+ *
+ *   LLM_PROVIDER            anthropic (default) | openai-compatible
+ *   LLM_BASE_URL            endpoint for openai-compatible, e.g. http://localhost:11434/v1
+ *   LLM_API_KEY             key for openai-compatible endpoints that need one
+ *   LLM_MODEL               model for every role
+ *   LLM_MODEL_<ROLE>        model for one role (BROWSING, RESEARCH, PERSONAS, VARIANTS)
+ *
+ * Anthropic roles default to Claude Sonnet; openai-compatible roles must
+ * name a model, which the constructor checks.
+ */
+
+import { AnthropicBackend, OpenAICompatibleBackend } from './backends';
+import { DEFAULT_MODEL, pricingFor, tokenCost } from './usage';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMBackend,
+  LLMConfig,
+  LLMProviderType,
+  LLMRole,
+  ModelSpec,
+} from './types';
+
+const ROLES: LLMRole[] = ['browsing', 'research', 'personas', 'variants'];
+
+export class LLMClient {
+  private config: LLMConfig;
+  private backends = new Map<string, LLMBackend>();
+
+  constructor(config?: LLMConfig) {
+    this.config = config || {};
+    // Fail on a missing model now rather than at the first call
+    ROLES.forEach(role => this.resolve(role));
+  }
+
+  /**
+   * Run a completion on the model for `request.role`, recording its usage
+   * on `request.meter`
+   */
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const spec = this.resolve(request.role);
+    const startedAt = Date.now();
+    const response = await this.backendFor(spec).complete(spec.model, {
+      prompt: request.prompt,
+      images: request.images,
+      maxTokens: request.maxTokens,
+      signal: request.signal,
+    });
+
+    const result: CompletionResult = {
+      ...response,
+      latencyMs: Date.now() - startedAt,
+      costUsd: tokenCost(pricingFor(spec), response.usage.inputTokens, response.usage.outputTokens),
+    };
+    request.meter?.record(result);
+    return result;
+  }
+
+  /**
+   * The model spec a role resolves to. Throws when an openai-compatible
+   * role has no model configured.
+   */
+  resolve(role: LLMRole): ModelSpec {
+    const roleSpec = this.config.roles?.[role];
+    const provider: LLMProviderType = roleSpec?.provider || this.config.default?.provider
+      || (process.env.LLM_PROVIDER as LLMProviderType | undefined) || 'anthropic';
+    const openai = provider === 'openai-compatible';
+
+    // The more specific setting wins: role config, role env, default config, default env
+    const model = roleSpec?.model
+      || process.env[`LLM_MODEL_${role.toUpperCase()}`]
+      || this.config.default?.model
+      || process.env.LLM_MODEL
+      || (openai ? undefined : DEFAULT_MODEL);
+    if (!model) {
+      throw new Error(
+        `No model configured for the ${role} role on an openai-compatible endpoint ` +
+        `(set LLM_MODEL or LLM_MODEL_${role.toUpperCase()})`
+      );
+    }
+
+    return {
+      provider,
+      model,
+      baseUrl: roleSpec?.baseUrl || this.config.default?.baseUrl || (openai ? process.env.LLM_BASE_URL : undefined),
+      apiKey: roleSpec?.apiKey || this.config.default?.apiKey || (openai ? process.env.LLM_API_KEY : undefined),
+      pricing: roleSpec?.pricing || this.config.default?.pricing,
+    };
+  }
+
+  /**
+   * Backend for a spec, created once per provider, endpoint and key
+   */
+  private backendFor(spec: ModelSpec): LLMBackend {
+    const key = `${spec.provider}|${spec.baseUrl || ''}|${spec.apiKey || ''}`;
+    let backend = this.backends.get(key);
+    if (!backend) {
+      backend = spec.provider === 'openai-compatible'
+        ? new OpenAICompatibleBackend({ baseUrl: spec.baseUrl, apiKey: spec.apiKey })
+        : new AnthropicBackend({ apiKey: spec.apiKey || this.config.anthropicApiKey });
+      this.backends.set(key, backend);
+    }
+    return backend;
+  }
+}
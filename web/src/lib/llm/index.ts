@@ -0,0 +1,25 @@
+/**
+ * LLM Module
+ *
+ * One model-provider layer for every agent: per-role model selection over
+ * Anthropic or any OpenAI-compatible endpoint (e.g. a local Ollama).
+ */
+
+import { LLMClient } from './client';
+
+export * from './types';
+export { LLMClient } from './client';
+export { AnthropicBackend, OpenAICompatibleBackend, LLMError } from './backends';
+export { UsageMeter, DEFAULT_MODEL, MODEL_PRICING, pricingFor, tokenCost } from './usage';
+
+let defaultClient: LLMClient | null = null;
+
+/**
+ * Shared client configured from the environment
+ */
+export function getLLMClient(): LLMClient {
+  if (!defaultClient) {
+    defaultClient = new LLMClient();
+  }
+  return defaultClient;
+}
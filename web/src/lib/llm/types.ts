@@ -0,0 +1,155 @@
+/**
+ * LLM Types
+ *
+ * Defines model roles, per-role model selection and the backend interface
+ * every model provider implements.
+ */
+
+import type { UsageMeter } from './usage';
+
+/**
+ * What a model call is for. Each role can use its own model, e.g. a cheap
+ * one for the many browsing decisions and a stronger one for research.
+ */
+export type LLMRole = 'browsing' | 'research' | 'personas' | 'variants';
+
+/**
+ * Supported backends
+ */
+export type LLMProviderType = 'anthropic' | 'openai-compatible';
+
+/**
+ * Which model serves a role, and where
+ */
+export interface ModelSpec {
+  /** Backend (default 'anthropic') */
+  provider: LLMProviderType;
+
+  /** Model name as the backend knows it */
+  model: string;
+
+  /** Endpoint base URL, for OpenAI-compatible servers (e.g. http://localhost:11434/v1 for Ollama) */
+  baseUrl?: string;
+
+  /** API key (defaults to ANTHROPIC_API_KEY or LLM_API_KEY) */
+  apiKey?: string;
+
+  /** Price override, e.g. for a hosted open model (default list price, free for self-hosted) */
+  pricing?: ModelPricing;
+}
+
+/**
+ * Model prices in USD per million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Model selection for an LLMClient. Anything unset falls back to the
+ * environment, then to Claude Sonnet (openai-compatible roles must name a model).
+ */
+export interface LLMConfig {
+  /** Applied to every role */
+  default?: Partial<ModelSpec>;
+
+  /** Per-role overrides on top of the default */
+  roles?: Partial<Record<LLMRole, Partial<ModelSpec>>>;
+
+  /** Key for the Anthropic backend (default ANTHROPIC_API_KEY) */
+  anthropicApiKey?: string;
+}
+
+/**
+ * A single-turn text completion
+ */
+export interface CompletionRequest {
+  /** Role that picks the model */
+  role: LLMRole;
+
+  /** User prompt */
+  prompt: string;
+
+  /** Images shown to the model before the prompt (vision-capable models only) */
+  images?: ImageInput[];
+
+  /** Upper bound on output tokens */
+  maxTokens: number;
+
+  /** Aborts the request */
+  signal?: AbortSignal;
+
+  /** Meter to add this call's tokens, latency and cost to */
+  meter?: UsageMeter;
+}
+
+/**
+ * A base64-encoded image
+ */
+export interface ImageInput {
+  mediaType: 'image/jpeg' | 'image/png';
+  data: string;
+}
+
+/**
+ * Token counts reported by the backend
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * A completion's text and what it cost
+ */
+export interface CompletionResult {
+  /** Generated text */
+  text: string;
+
+  /** Model that produced it */
+  model: string;
+
+  /** Tokens used (zero when the backend doesn't report them) */
+  usage: TokenUsage;
+
+  /** Wall-clock time of the call in ms */
+  latencyMs: number;
+
+  /** Estimated cost in USD */
+  costUsd: number;
+}
+
+/**
+ * Totals over a group of completions
+ */
+export interface LLMUsage {
+  /** Completions made */
+  calls: number;
+
+  /** Input tokens across all calls */
+  inputTokens: number;
+
+  /** Output tokens across all calls */
+  outputTokens: number;
+
+  /** Summed call latency in ms */
+  latencyMs: number;
+
+  /** Estimated cost in USD */
+  costUsd: number;
+}
+
+/**
+ * A model backend
+ */
+export interface LLMBackend {
+  /** Backend name, for logs */
+  readonly name: LLMProviderType;
+
+  /** Run a completion with the given model (latency and cost are filled in by the client) */
+  complete(
+    model: string,
+    request: Pick<CompletionRequest, 'prompt' | 'images' | 'maxTokens' | 'signal'>
+  ): Promise<Omit<CompletionResult, 'latencyMs' | 'costUsd'>>;
+}
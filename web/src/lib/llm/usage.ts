@@ -0,0 +1,68 @@
+/**
+ * LLM Usage
+ *
+ * Token, latency and cost accounting. Prices are USD per million tokens;
+ * self-hosted models cost nothing unless a price is configured.
+ */
+
+import type { CompletionResult, LLMUsage, ModelPricing, ModelSpec } from './types';
+
+/** Model used for Anthropic roles when neither config nor environment names one */
+export const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+/**
+ * List prices by model-name prefix, most specific first
+ */
+export const MODEL_PRICING: Array<{ prefix: string; pricing: ModelPricing }> = [
+  { prefix: 'claude-opus-4', pricing: { inputPerMillion: 15, outputPerMillion: 75 } },
+  { prefix: 'claude-sonnet-4', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { prefix: 'claude-3-7-sonnet', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { prefix: 'claude-3-5-sonnet', pricing: { inputPerMillion: 3, outputPerMillion: 15 } },
+  { prefix: 'claude-3-5-haiku', pricing: { inputPerMillion: 0.8, outputPerMillion: 4 } },
+  { prefix: 'claude-3-haiku', pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25 } },
+];
+
+/**
+ * Price for a model: configured, else free for other endpoints (whatever
+ * their models are called), else the Anthropic list price, with Sonnet
+ * pricing for unknown Anthropic models
+ */
+export function pricingFor(spec: ModelSpec): ModelPricing {
+  if (spec.pricing) return spec.pricing;
+  if (spec.provider !== 'anthropic') return { inputPerMillion: 0, outputPerMillion: 0 };
+
+  const listed = MODEL_PRICING.find(entry => spec.model.startsWith(entry.prefix));
+  return listed ? listed.pricing : { inputPerMillion: 3, outputPerMillion: 15 };
+}
+
+/**
+ * USD cost of a number of input and output tokens
+ */
+export function tokenCost(pricing: ModelPricing, inputTokens: number, outputTokens: number): number {
+  return (inputTokens / 1e6) * pricing.inputPerMillion + (outputTokens / 1e6) * pricing.outputPerMillion;
+}
+
+/**
+ * Running totals for a group of calls (a session, a generator, a request)
+ */
+export class UsageMeter {
+  private usage: LLMUsage = { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0 };
+
+  /**
+   * Add one completion
+   */
+  record(result: CompletionResult): void {
+    this.usage.calls++;
+    this.usage.inputTokens += result.usage.inputTokens;
+    this.usage.outputTokens += result.usage.outputTokens;
+    this.usage.latencyMs += result.latencyMs;
+    this.usage.costUsd += result.costUsd;
+  }
+
+  /**
+   * Copy of the totals so far
+   */
+  totals(): LLMUsage {
+    return { ...this.usage };
+  }
+}
@@ -6,18 +6,18 @@
  * use preset templates.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import { LLMClient, UsageMeter, getLLMClient } from '../llm';
 import type { Persona, PersonaGenerationRequest } from './types';
 import { getRandomPresetPersonas, PERSONA_PRESETS } from './presets';
 
 export class PersonaGenerator {
-  private anthropic: Anthropic;
+  private llm: LLMClient;
+  /** Tokens, latency and cost of every model call this instance made */
+  readonly usage = new UsageMeter();
   private maxRetries = 3;
 
-  constructor(apiKey?: string) {
-    this.anthropic = new Anthropic({
-      apiKey: apiKey || process.env.ANTHROPIC_API_KEY,
-    });
+  constructor(apiKey?: string, llm?: LLMClient) {
+    this.llm = llm || (apiKey ? new LLMClient({ anthropicApiKey: apiKey }) : getLLMClient());
   }
 
   /**
@@ -137,15 +137,10 @@ Respond with a JSON array:
 
 Remember: These personas will drive actual browser automation. The agentInstructions should be actionable.`;
 
-    const response = await this.callWithRetry(() =>
-      this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 3000,
-        messages: [{ role: 'user', content: prompt }],
-      })
+    const { text } = await this.callWithRetry(() =>
+      this.llm.complete({ role: 'personas', prompt, maxTokens: 3000, meter: this.usage })
     );
 
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
     return this.parsePersonas(text);
   }
 
@@ -195,15 +190,10 @@ Respond with JSON matching this schema:
   "agentInstructions": "Actionable instructions for browser agent"
 }`;
 
-    const response = await this.callWithRetry(() =>
-      this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 1500,
-        messages: [{ role: 'user', content: prompt }],
-      })
+    const { text } = await this.callWithRetry(() =>
+      this.llm.complete({ role: 'personas', prompt, maxTokens: 1500, meter: this.usage })
     );
 
-    const text = response.content[0].type === 'text' ? response.content[0].text : '';
     const personas = this.parsePersonas(text);
     return personas[0] || this.createFallbackPersona();
   }
@@ -0,0 +1,129 @@
+/**
+ * Persona Identity
+ *
+ * Synthetic contact details for a persona, for filling in forms. The same
+ * persona always gets the same identity, and the details fit who the
+ * persona is: their name, their age, and the size of company their
+ * description suggests.
+ */
+
+import type { Persona } from './types';
+import { hashString } from '../utils';
+
+/**
+ * Made-up personal and company details a persona enters into forms
+ */
+export interface SyntheticIdentity {
+  /** Given name */
+  firstName: string;
+
+  /** Family name */
+  lastName: string;
+
+  /** "First Last" */
+  fullName: string;
+
+  /** Address on a reserved example domain, so nothing is ever delivered */
+  email: string;
+
+  /** Phone number in the fictional 555-0100 to 555-0199 range */
+  phone: string;
+
+  /** Employer or own business */
+  company: string;
+
+  /** Headcount band, e.g. "1-10" or "1000+" */
+  companySize: string;
+
+  /** Role at the company */
+  jobTitle: string;
+
+  /** Company website */
+  website: string;
+
+  /** Street address */
+  address: string;
+
+  /** City */
+  city: string;
+
+  /** Postal code */
+  postalCode: string;
+
+  /** Country */
+  country: string;
+
+  /** Free-text message, for "how can we help" boxes */
+  message: string;
+
+  /** Password that passes common strength rules */
+  password: string;
+}
+
+const FIRST_NAMES = ['Alex', 'Jordan', 'Sam', 'Taylor', 'Morgan', 'Casey', 'Riley', 'Jamie', 'Avery', 'Quinn'];
+const LAST_NAMES = ['Nguyen', 'Garcia', 'Smith', 'Okafor', 'Kowalski', 'Patel', 'Johansson', 'Rossi', 'Kim', 'Murphy'];
+const CITIES = [
+  { city: 'Austin', postalCode: '78701', areaCode: '512' },
+  { city: 'Denver', postalCode: '80202', areaCode: '303' },
+  { city: 'Portland', postalCode: '97204', areaCode: '503' },
+  { city: 'Columbus', postalCode: '43215', areaCode: '614' },
+  { city: 'Raleigh', postalCode: '27601', areaCode: '919' },
+];
+const STREETS = ['Main St', 'Oak Ave', 'Maple Dr', 'Cedar Ln', 'Elm St'];
+
+/**
+ * Company size bands with the words in a persona's description that
+ * suggest them, largest first
+ */
+const COMPANY_SIZES: Array<{ size: string; pattern: RegExp; company: string; title: string }> = [
+  { size: '1000+', pattern: /enterprise|corporat|procurement|large (company|organi[sz]ation)/i, company: 'Globex Corporation', title: 'Director of Operations' },
+  { size: '51-200', pattern: /manager|team lead|department|mid-?size/i, company: 'Northwind Traders', title: 'Team Lead' },
+  { size: '11-50', pattern: /startup|founder|agency|growing/i, company: 'Brightpath Labs', title: 'Founder' },
+  { size: '1-10', pattern: /freelanc|small business|solo|budget|deal|self-employed/i, company: 'Studio', title: 'Owner' },
+];
+
+/**
+ * Synthetic identity for a persona, the same every time for the same persona
+ */
+export function generateIdentity(persona: Persona): SyntheticIdentity {
+  const pick = <T>(list: T[], salt: string): T => list[hashString(`${persona.id}:${salt}`) % list.length];
+
+  // Preset and generated names are alliterative, e.g. "Budget Ben"
+  const nameWords = persona.name.split(/\s+/).filter(w => /^[A-Z][a-z]+$/.test(w));
+  const firstName = nameWords.length > 1 ? nameWords[nameWords.length - 1] : pick(FIRST_NAMES, 'first');
+  const lastName = pick(LAST_NAMES, 'last');
+
+  const context = `${persona.description} ${persona.intent.goal}`;
+  const band = COMPANY_SIZES.find(b => b.pattern.test(context))
+    || (persona.demographics.ageRange === '18-24'
+      ? COMPANY_SIZES[3]
+      : COMPANY_SIZES[2]);
+  const company = band.size === '1-10' ? `${lastName} ${band.company}` : band.company;
+  const domain = `${company.toLowerCase().replace(/[^a-z0-9]+/g, '')}.example.com`;
+  const place = pick(CITIES, 'city');
+
+  // Older, less technical personas write from a personal address
+  const personalEmail = persona.demographics.techSavviness === 'low'
+    || ['55-64', '65+'].includes(persona.demographics.ageRange);
+  const email = personalEmail
+    ? `${firstName.toLowerCase()}.${lastName.toLowerCase()}${hashString(persona.id) % 90 + 10}@example.com`
+    : `${firstName.toLowerCase()}.${lastName.toLowerCase()}@${domain}`;
+
+  return {
+    firstName,
+    lastName,
+    fullName: `${firstName} ${lastName}`,
+    email,
+    phone: `(${place.areaCode}) 555-01${String(hashString(`${persona.id}:phone`) % 100).padStart(2, '0')}`,
+    company,
+    companySize: band.size,
+    jobTitle: band.title,
+    website: `https://${domain}`,
+    address: `${hashString(`${persona.id}:street`) % 900 + 100} ${pick(STREETS, 'street')}`,
+    city: place.city,
+    postalCode: place.postalCode,
+    country: 'United States',
+    message: `Hi, I'm ${firstName}. ${persona.intent.goal}. Could you tell me more?`,
+    password: `Swarm-${hashString(persona.id).toString(36)}-9!`,
+  };
+}
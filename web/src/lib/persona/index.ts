@@ -7,3 +7,4 @@
 export * from './types';
 export * from './presets';
 export { PersonaGenerator } from './generator';
+export { generateIdentity, type SyntheticIdentity } from './identity';
@@ -0,0 +1,183 @@
+/**
+ * File Experiment Store
+ * 
+ * Default ExperimentStore that keeps each experiment in its own directory:
+ * JSON files for config, status and results, an append-only JSONL log of
+ * sessions so a crash mid-run loses at most the session being written, a
+ * recordings/ directory with one file per recorded session, and a
+ * control.json while a control request waits for a standalone worker.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  AgentSession,
+  ExperimentConfig,
+  ExperimentResults,
+  ExperimentStatus,
+  SessionRecording,
+} from '../swarm/types';
+import type { RunControlState } from '../swarm/control';
+import type { ExperimentStore, StoredExperimentSummary } from './types';
+
+export class FileExperimentStore implements ExperimentStore {
+  private baseDir: string;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir || process.env.SWARM_STORE_DIR || path.join(process.cwd(), '.swarm-data');
+  }
+
+  async saveConfig(config: ExperimentConfig): Promise<void> {
+    await this.writeJson(config.id, 'config.json', config);
+  }
+
+  async getConfig(experimentId: string): Promise<ExperimentConfig | null> {
+    return this.readJson<ExperimentConfig>(experimentId, 'config.json');
+  }
+
+  async appendSession(experimentId: string, session: AgentSession): Promise<void> {
+    await fs.mkdir(this.experimentDir(experimentId), { recursive: true });
+    // Each record starts on a fresh line, so one appended after a torn
+    // write isn't glued onto it (the reader skips the empty lines)
+    await fs.appendFile(
+      this.filePath(experimentId, 'sessions.jsonl'),
+      '\n' + JSON.stringify(session),
+      'utf8'
+    );
+  }
+
+  async getSessions(experimentId: string): Promise<AgentSession[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(experimentId, 'sessions.jsonl'), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const sessions: AgentSession[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        sessions.push(JSON.parse(line));
+      } catch {
+        // A torn final line from an interrupted write - that session reruns
+        console.warn(`[FileExperimentStore] Skipping unreadable session line in ${experimentId}`);
+      }
+    }
+    return sessions;
+  }
+
+  async saveRecording(experimentId: string, recording: SessionRecording): Promise<void> {
+    await fs.mkdir(path.join(this.experimentDir(experimentId), 'recordings'), { recursive: true });
+    await this.writeJson(experimentId, this.recordingFile(recording.sessionId), recording);
+  }
+
+  async getRecording(experimentId: string, sessionId: string): Promise<SessionRecording | null> {
+    if (!isValidId(sessionId)) return null;
+    return this.readJson<SessionRecording>(experimentId, this.recordingFile(sessionId));
+  }
+
+  async saveStatus(status: ExperimentStatus): Promise<void> {
+    await this.writeJson(status.experimentId, 'status.json', status);
+  }
+
+  async getStatus(experimentId: string): Promise<ExperimentStatus | null> {
+    return this.readJson<ExperimentStatus>(experimentId, 'status.json');
+  }
+
+  async saveControlRequest(experimentId: string, state: RunControlState | null): Promise<void> {
+    if (state) {
+      await this.writeJson(experimentId, 'control.json', { state, requestedAt: Date.now() });
+    } else {
+      await fs.rm(this.filePath(experimentId, 'control.json'), { force: true });
+    }
+  }
+
+  async getControlRequest(experimentId: string): Promise<RunControlState | null> {
+    const request = await this.readJson<{ state: RunControlState }>(experimentId, 'control.json');
+    return request?.state ?? null;
+  }
+
+  async saveResults(results: ExperimentResults): Promise<void> {
+    await this.writeJson(results.experimentId, 'results.json', results);
+  }
+
+  async getResults(experimentId: string): Promise<ExperimentResults | null> {
+    return this.readJson<ExperimentResults>(experimentId, 'results.json');
+  }
+
+  async listExperiments(): Promise<StoredExperimentSummary[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.baseDir);
+    } catch {
+      return [];
+    }
+
+    const summaries: StoredExperimentSummary[] = [];
+    for (const id of ids) {
+      const config = await this.getConfig(id);
+      if (!config) continue;
+
+      const dir = this.experimentDir(id);
+      const entries = await fs.readdir(dir);
+      const stats = await Promise.all(entries.map(e => fs.stat(path.join(dir, e))));
+      const configStat = await fs.stat(this.filePath(id, 'config.json'));
+
+      summaries.push({
+        id,
+        name: config.name,
+        url: config.url,
+        status: await this.getStatus(id),
+        createdAt: configStat.birthtimeMs || configStat.mtimeMs,
+        updatedAt: Math.max(...stats.map(s => s.mtimeMs)),
+      });
+    }
+
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Write JSON atomically (temp file + rename). Sessions finish in
+   * parallel, so the temp name is random as well as timestamped.
+   */
+  private async writeJson(experimentId: string, file: string, data: unknown): Promise<void> {
+    await fs.mkdir(this.experimentDir(experimentId), { recursive: true });
+    const target = this.filePath(experimentId, file);
+    const temp = `${target}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2, 8)}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  private async readJson<T>(experimentId: string, file: string): Promise<T | null> {
+    try {
+      const content = await fs.readFile(this.filePath(experimentId, file), 'utf8');
+      return JSON.parse(content) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  private experimentDir(experimentId: string): string {
+    // IDs come from URLs; keep them from escaping the store directory
+    if (!isValidId(experimentId)) {
+      throw new Error(`Invalid experiment ID: ${experimentId}`);
+    }
+    return path.join(this.baseDir, experimentId);
+  }
+
+  private recordingFile(sessionId: string): string {
+    if (!isValidId(sessionId)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return path.join('recordings', `${sessionId}.json`);
+  }
+
+  private filePath(experimentId: string, file: string): string {
+    return path.join(this.experimentDir(experimentId), file);
+  }
+}
+
+function isValidId(id: string): boolean {
+  return /^[\w-]+$/.test(id);
+}
@@ -0,0 +1,24 @@
+/**
+ * Store Module
+ * 
+ * Persists experiments, their sessions and status so runs can be
+ * inspected after the request ends and resumed after an interruption.
+ */
+
+import { FileExperimentStore } from './file-store';
+import type { ExperimentStore } from './types';
+
+export * from './types';
+export { FileExperimentStore } from './file-store';
+
+let defaultStore: ExperimentStore | null = null;
+
+/**
+ * Shared store instance for API routes (file-backed by default)
+ */
+export function getExperimentStore(): ExperimentStore {
+  if (!defaultStore) {
+    defaultStore = new FileExperimentStore();
+  }
+  return defaultStore;
+}
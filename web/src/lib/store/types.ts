@@ -0,0 +1,85 @@
+/**
+ * Store Types
+ * 
+ * Defines the storage interface for experiments, so runs survive the
+ * request that started them and can be resumed after an interruption.
+ */
+
+import type {
+  AgentSession,
+  ExperimentConfig,
+  ExperimentResults,
+  ExperimentStatus,
+  SessionRecording,
+} from '../swarm/types';
+import type { RunControlState } from '../swarm/control';
+
+/**
+ * Summary of a stored experiment for listings
+ */
+export interface StoredExperimentSummary {
+  /** Experiment ID */
+  id: string;
+  
+  /** Experiment name */
+  name: string;
+  
+  /** URL under test */
+  url: string;
+  
+  /** Last known status (null if never reported) */
+  status: ExperimentStatus | null;
+  
+  /** When the config was first saved */
+  createdAt: number;
+  
+  /** When anything about the experiment last changed */
+  updatedAt: number;
+}
+
+/**
+ * Pluggable persistence for experiments.
+ * 
+ * Implementations must make appendSession durable before resolving: a
+ * resumed run trusts getSessions to know which sessions already finished.
+ */
+export interface ExperimentStore {
+  /** Save (or overwrite) an experiment's configuration */
+  saveConfig(config: ExperimentConfig): Promise<void>;
+  
+  /** Load an experiment's configuration */
+  getConfig(experimentId: string): Promise<ExperimentConfig | null>;
+  
+  /** Record a completed session */
+  appendSession(experimentId: string, session: AgentSession): Promise<void>;
+  
+  /** All completed sessions, in completion order */
+  getSessions(experimentId: string): Promise<AgentSession[]>;
+  
+  /** Save a session's replay recording */
+  saveRecording(experimentId: string, recording: SessionRecording): Promise<void>;
+  
+  /** Load a session's replay recording */
+  getRecording(experimentId: string, sessionId: string): Promise<SessionRecording | null>;
+  
+  /** Save the latest status */
+  saveStatus(status: ExperimentStatus): Promise<void>;
+  
+  /** Load the latest status */
+  getStatus(experimentId: string): Promise<ExperimentStatus | null>;
+  
+  /** Ask the process running an experiment to pause, resume or cancel it (null clears the request) */
+  saveControlRequest(experimentId: string, state: RunControlState | null): Promise<void>;
+  
+  /** Control request not yet applied by the experiment's runner */
+  getControlRequest(experimentId: string): Promise<RunControlState | null>;
+  
+  /** Save final results */
+  saveResults(results: ExperimentResults): Promise<void>;
+  
+  /** Load final results */
+  getResults(experimentId: string): Promise<ExperimentResults | null>;
+  
+  /** List stored experiments, most recently updated first */
+  listExperiments(): Promise<StoredExperimentSummary[]>;
+}
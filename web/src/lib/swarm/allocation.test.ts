@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  allocateSessions,
+  normalizeWeights,
+  sampleVariant,
+  thompsonProbabilities,
+  weightedCounts,
+} from './allocation';
+import type { AgentSession, ExperimentVariant } from './types';
+
+const variants = ['a', 'b', 'c'].map(id => ({ id, name: id, isControl: id === 'a' })) as ExperimentVariant[];
+const session = (converted: boolean, assignmentProbability: number) =>
+  ({ converted, assignmentProbability }) as AgentSession;
+
+describe('normalizeWeights', () => {
+  it('splits evenly without weights', () => {
+    assert.deepEqual(normalizeWeights(variants), { a: 1 / 3, b: 1 / 3, c: 1 / 3 });
+  });
+
+  it('gives unweighted variants nothing once any weight is set', () => {
+    assert.deepEqual(normalizeWeights(variants, { a: 3, b: 1 }), { a: 0.75, b: 0.25, c: 0 });
+  });
+});
+
+describe('allocateSessions', () => {
+  it('hands leftover sessions to the largest remainders', () => {
+    assert.deepEqual(allocateSessions({ a: 0.5, b: 0.3, c: 0.2 }, 7), { a: 4, b: 2, c: 1 });
+  });
+});
+
+describe('thompsonProbabilities', () => {
+  const arms = [
+    { variantId: 'a', conversions: 3, sessions: 10 },
+    { variantId: 'b', conversions: 5, sessions: 10 },
+  ];
+
+  it('is reproducible for the same counts', () => {
+    assert.deepEqual(thompsonProbabilities(arms), thompsonProbabilities(arms));
+  });
+
+  it('favours the better arm but keeps the floor', () => {
+    const probabilities = thompsonProbabilities(
+      [{ variantId: 'a', conversions: 0, sessions: 50 }, { variantId: 'b', conversions: 40, sessions: 50 }],
+      { minShare: 0.1 }
+    );
+    assert.ok(Math.abs(probabilities.a - 0.1) < 1e-9);
+    assert.ok(Math.abs(probabilities.a + probabilities.b - 1) < 1e-9);
+  });
+});
+
+describe('sampleVariant', () => {
+  it('walks the cumulative probabilities', () => {
+    assert.equal(sampleVariant({ a: 0.5, b: 0.5 }, () => 0.2), 'a');
+    assert.equal(sampleVariant({ a: 0.5, b: 0.5 }, () => 0.7), 'b');
+  });
+});
+
+describe('weightedCounts', () => {
+  it('equals the raw counts under a constant assignment probability', () => {
+    const sessions = [session(true, 0.5), session(false, 0.5), session(false, 0.5), session(true, 0.5)];
+    assert.deepEqual(weightedCounts('a', sessions), { variantId: 'a', conversions: 2, sessions: 4 });
+  });
+
+  it('up-weights rarely assigned sessions over an effective sample size', () => {
+    const sessions = [session(true, 0.1), session(false, 0.9), session(false, 0.9), session(false, 0.9)];
+    assert.deepEqual(weightedCounts('a', sessions), { variantId: 'a', conversions: 2, sessions: 2 });
+  });
+});
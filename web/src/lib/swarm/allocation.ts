@@ -0,0 +1,138 @@
+/**
+ * Swarm Traffic Allocation
+ *
+ * Decides how many sessions each variant gets. Fixed allocation splits the
+ * session budget by configured weights up front; Thompson sampling assigns
+ * later batches in proportion to each variant's probability of being best,
+ * with a floor so every variant keeps receiving traffic. Adaptive
+ * allocation biases raw counts, so inference uses weighted ones.
+ */
+
+import { mulberry32, sampleBeta } from './bayesian';
+import type { ArmCounts } from './statistics';
+import type { AgentSession, BanditConfig, ExperimentVariant } from './types';
+
+/**
+ * Normalize traffic weights into shares that sum to 1.
+ * Variants without a weight get none; no weights at all means an even split.
+ */
+export function normalizeWeights(
+  variants: ExperimentVariant[],
+  weights?: Record<string, number>
+): Record<string, number> {
+  const raw = variants.map(v => Math.max(0, weights?.[v.id] ?? (weights ? 0 : 1)));
+  const total = raw.reduce((sum, w) => sum + w, 0);
+
+  const shares: Record<string, number> = {};
+  variants.forEach((v, i) => {
+    shares[v.id] = total > 0 ? raw[i] / total : 1 / variants.length;
+  });
+  return shares;
+}
+
+/**
+ * Split a session budget across variants by share (largest remainder)
+ */
+export function allocateSessions(
+  shares: Record<string, number>,
+  totalSessions: number
+): Record<string, number> {
+  const entries = Object.entries(shares);
+  const counts: Record<string, number> = {};
+  const remainders: Array<{ id: string; remainder: number }> = [];
+  let assigned = 0;
+
+  for (const [id, share] of entries) {
+    const exact = share * totalSessions;
+    counts[id] = Math.floor(exact);
+    assigned += counts[id];
+    remainders.push({ id, remainder: exact - counts[id] });
+  }
+
+  remainders
+    .sort((a, b) => b.remainder - a.remainder)
+    .slice(0, totalSessions - assigned)
+    .forEach(({ id }) => counts[id]++);
+
+  return counts;
+}
+
+/**
+ * Thompson-sampling assignment probabilities from conversion counts.
+ *
+ * Each variant's probability of being best is estimated from Beta(1, 1)
+ * posterior draws, then floored at `minShare` and renormalized so every
+ * assignment probability stays bounded away from zero. Draws are seeded,
+ * so the same counts give the same probabilities.
+ */
+export function thompsonProbabilities(
+  arms: ArmCounts[],
+  config: BanditConfig = {},
+  random: () => number = mulberry32(config.seed ?? 42)
+): Record<string, number> {
+  const { draws = 2000 } = config;
+  const minShare = Math.min(config.minShare ?? 0.05, 1 / arms.length);
+  const wins = new Array<number>(arms.length).fill(0);
+
+  for (let i = 0; i < draws; i++) {
+    let best = 0;
+    let bestValue = -1;
+    arms.forEach((arm, k) => {
+      const value = sampleBeta(1 + arm.conversions, 1 + arm.sessions - arm.conversions, random);
+      if (value > bestValue) {
+        bestValue = value;
+        best = k;
+      }
+    });
+    wins[best]++;
+  }
+
+  // Mix the posterior win rates with a uniform floor
+  const free = 1 - minShare * arms.length;
+  const probabilities: Record<string, number> = {};
+  arms.forEach((arm, k) => {
+    probabilities[arm.variantId] = minShare + free * (wins[k] / draws);
+  });
+  return probabilities;
+}
+
+/**
+ * Draw a variant ID according to assignment probabilities, using a seeded
+ * generator (see mulberry32) so a run's assignments can be reproduced
+ */
+export function sampleVariant(probabilities: Record<string, number>, random: () => number): string {
+  const entries = Object.entries(probabilities);
+  let r = random();
+  for (const [id, p] of entries) {
+    r -= p;
+    if (r < 0) return id;
+  }
+  return entries[entries.length - 1][0];
+}
+
+/**
+ * Inverse-propensity-weighted conversion counts for one variant.
+ *
+ * Each session counts 1 / its assignment probability, undoing the
+ * over-sampling of early leaders. The weighted (Hajek) rate is expressed
+ * over the Kish effective sample size, rounded so exact tests still apply.
+ */
+export function weightedCounts(variantId: string, sessions: AgentSession[]): ArmCounts {
+  let totalWeight = 0;
+  let squaredWeight = 0;
+  let convertedWeight = 0;
+  for (const session of sessions) {
+    const weight = 1 / (session.assignmentProbability || 1);
+    totalWeight += weight;
+    squaredWeight += weight * weight;
+    if (session.converted) convertedWeight += weight;
+  }
+  if (totalWeight === 0) return { variantId, conversions: 0, sessions: 0 };
+
+  const effectiveSessions = Math.max(1, Math.round((totalWeight * totalWeight) / squaredWeight));
+  return {
+    variantId,
+    conversions: Math.round((convertedWeight / totalWeight) * effectiveSessions),
+    sessions: effectiveSessions,
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeBayesian, mulberry32 } from './bayesian';
+
+describe('mulberry32', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = mulberry32(7);
+    const b = mulberry32(7);
+    const first = [a(), a(), a()];
+    assert.deepEqual([b(), b(), b()], first);
+    first.forEach(value => assert.ok(value >= 0 && value < 1));
+  });
+});
+
+describe('analyzeBayesian', () => {
+  const arms = [
+    { variantId: 'control', conversions: 10, sessions: 100 },
+    { variantId: 'variant', conversions: 30, sessions: 100 },
+  ];
+
+  it('updates a uniform prior with the counts', () => {
+    const { posterior } = analyzeBayesian(arms, 'control').variants.variant;
+    assert.equal(posterior.alpha, 31);
+    assert.equal(posterior.beta, 71);
+    assert.ok(Math.abs(posterior.mean - (31 / 102) * 100) < 1e-9);
+  });
+
+  it('is confident in a clear winner and reproducible', () => {
+    const result = analyzeBayesian(arms, 'control');
+    assert.ok(result.variants.variant.probabilityToBeatBaseline! > 99);
+    assert.equal(result.variants.control.probabilityToBeatBaseline, null);
+    assert.deepEqual(analyzeBayesian(arms, 'control'), result);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Swarm Bayesian Analysis
+ *
+ * Beta-Binomial read-out for experiment variants: posterior conversion
+ * rates, probability to beat the control, probability to be best, expected
+ * loss and credible intervals on lift. Joint quantities are estimated by
+ * Monte Carlo with a seeded generator so the same data gives the same answer.
+ */
+
+import { incompleteBeta, type ArmCounts } from './statistics';
+import { sampleNormal } from '../utils';
+import type {
+  BayesianResults,
+  BayesianVariantResult,
+  BetaPrior,
+  ConfidenceInterval,
+} from './types';
+
+/**
+ * Options for a Bayesian analysis
+ */
+export interface BayesianOptions {
+  /** Beta prior shared by all arms (default uniform Beta(1, 1)) */
+  prior?: BetaPrior;
+
+  /** Credible interval mass (default 0.95) */
+  credibleLevel?: number;
+
+  /** Monte Carlo draws per arm (default 20000) */
+  samples?: number;
+
+  /** PRNG seed for reproducible draws */
+  seed?: number;
+}
+
+/**
+ * Run a Beta-Binomial analysis over all arms.
+ *
+ * All rates, probabilities and losses are reported as percentages.
+ */
+export function analyzeBayesian(
+  arms: ArmCounts[],
+  baselineId: string | null,
+  options: BayesianOptions = {}
+): BayesianResults {
+  const prior = options.prior || { alpha: 1, beta: 1 };
+  const credibleLevel = options.credibleLevel ?? 0.95;
+  const samples = options.samples ?? 20000;
+  const random = mulberry32(options.seed ?? 42);
+  const tail = (1 - credibleLevel) / 2;
+
+  const posteriors = arms.map(arm => ({
+    variantId: arm.variantId,
+    alpha: prior.alpha + arm.conversions,
+    beta: prior.beta + (arm.sessions - arm.conversions),
+  }));
+
+  const draws = posteriors.map(p => {
+    const values = new Float64Array(samples);
+    for (let i = 0; i < samples; i++) {
+      values[i] = sampleBeta(p.alpha, p.beta, random);
+    }
+    return values;
+  });
+
+  // Best rate in each joint draw, for probability-to-be-best and expected loss
+  const bestInDraw = new Float64Array(samples);
+  const bestIndex = new Int32Array(samples);
+  for (let i = 0; i < samples; i++) {
+    let best = -1;
+    for (let k = 0; k < draws.length; k++) {
+      if (draws[k][i] > best) {
+        best = draws[k][i];
+        bestIndex[i] = k;
+      }
+    }
+    bestInDraw[i] = best;
+  }
+
+  const baselineIndex = baselineId ? posteriors.findIndex(p => p.variantId === baselineId) : -1;
+  const variants: Record<string, BayesianVariantResult> = {};
+
+  posteriors.forEach((posterior, k) => {
+    let wins = 0;
+    let beatsBaseline = 0;
+    let loss = 0;
+    const lifts: number[] = [];
+
+    for (let i = 0; i < samples; i++) {
+      if (bestIndex[i] === k) wins++;
+      loss += bestInDraw[i] - draws[k][i];
+
+      if (baselineIndex >= 0 && baselineIndex !== k) {
+        const baselineRate = draws[baselineIndex][i];
+        if (draws[k][i] > baselineRate) beatsBaseline++;
+        lifts.push(draws[k][i] / baselineRate - 1);
+      }
+    }
+
+    let liftCredibleInterval: ConfidenceInterval | null = null;
+    let expectedLift: number | null = null;
+    if (lifts.length > 0) {
+      lifts.sort((a, b) => a - b);
+      liftCredibleInterval = {
+        lower: quantileOfSorted(lifts, tail) * 100,
+        upper: quantileOfSorted(lifts, 1 - tail) * 100,
+        level: credibleLevel,
+      };
+      expectedLift = (lifts.reduce((sum, v) => sum + v, 0) / lifts.length) * 100;
+    }
+
+    variants[posterior.variantId] = {
+      variantId: posterior.variantId,
+      posterior: {
+        alpha: posterior.alpha,
+        beta: posterior.beta,
+        mean: (posterior.alpha / (posterior.alpha + posterior.beta)) * 100,
+        credibleInterval: {
+          lower: betaQuantile(tail, posterior.alpha, posterior.beta) * 100,
+          upper: betaQuantile(1 - tail, posterior.alpha, posterior.beta) * 100,
+          level: credibleLevel,
+        },
+      },
+      probabilityToBeatBaseline: liftCredibleInterval ? (beatsBaseline / samples) * 100 : null,
+      probabilityToBeBest: (wins / samples) * 100,
+      expectedLoss: (loss / samples) * 100,
+      expectedLift,
+      liftCredibleInterval,
+    };
+  });
+
+  return {
+    baselineId: baselineIndex >= 0 ? baselineId : null,
+    prior,
+    credibleLevel,
+    samples,
+    variants,
+  };
+}
+
+/**
+ * Quantile of a Beta(a, b) distribution (bisection on the CDF)
+ */
+export function betaQuantile(p: number, a: number, b: number): number {
+  let lo = 0;
+  let hi = 1;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (incompleteBeta(mid, a, b) < p) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Linear-interpolated quantile of an ascending array
+ */
+function quantileOfSorted(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Draw from Beta(a, b) via two gamma draws
+ */
+export function sampleBeta(a: number, b: number, random: () => number): number {
+  const x = sampleGamma(a, random);
+  const y = sampleGamma(b, random);
+  return x / (x + y);
+}
+
+/**
+ * Draw from Gamma(shape, 1) (Marsaglia-Tsang)
+ */
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) {
+    // Boost small shapes: Gamma(k) = Gamma(k + 1) * U^(1/k)
+    return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  while (true) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/**
+ * Small seeded PRNG returning floats in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
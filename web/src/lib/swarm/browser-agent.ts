@@ -2,55 +2,91 @@
  * Browser Agent
  * 
  * An AI-powered browser automation agent that simulates a user persona
- * browsing and interacting with a webpage. Uses Claude to make decisions
- * about what to do next based on the persona's characteristics.
+ * browsing and interacting with a webpage. A DecisionProvider (the
+ * 'browsing' LLM by default) chooses what to do next based on the persona's characteristics.
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-import Browserbase from '@browserbasehq/sdk';
-import { chromium, type Browser, type Page, type ElementHandle } from 'playwright-core';
-import type { Persona } from '../persona';
+import { type Page, type ElementHandle } from 'playwright-core';
+import { generateIdentity, type Persona, type SyntheticIdentity } from '../persona';
+import type { RateLimiters } from './rate-limit';
+import { SessionError, classifyFailure } from './failures';
+import { LLMDecisionProvider, type DecisionProvider } from './decision';
+import { LLMClient, UsageMeter, getLLMClient } from '../llm';
+import { stripHash } from '../utils';
+import { sessionUsage } from './usage';
+import { goalSteps } from './funnel';
+import { ConversionMonitor } from './detectors';
+import { SessionRecorder } from './recording';
+import { HumanInput, type Aim } from './input';
+import { describeReading, planReading, readingTime, recordAttention, visibleSections } from './reading';
+import {
+  SubmissionWatcher,
+  createFormProgress,
+  fieldValue,
+  findFormField,
+  formMetrics,
+  noteFormErrors,
+  recordFieldEntry,
+  shouldAbandonForm,
+  type FormProgress,
+} from './forms';
+import {
+  BrowserbaseProvider,
+  getDefaultBrowserProvider,
+  type BrowserProvider,
+  type BrowserSession,
+} from './browser-provider';
 import type { 
   AgentAction,
   AgentActionType,
   AgentRunConfig, 
   AgentSession, 
+  FormField,
+  FormSnapshot,
+  PageSnapshot,
+  Perception,
+  ViewportContent,
+  VisibleElement,
+  SessionFailure,
   SessionMetrics,
-  ConversionGoal 
+  SessionPhase,
+  DetectorFiring,
+  FunnelStepReached,
+  InteractionPoint,
+  PageCapture,
+  ScrollSample,
+  SectionAttention,
 } from './types';
 
-/**
- * Snapshot of visible page elements for decision making
- */
-interface PageSnapshot {
-  url: string;
-  title: string;
-  headings: string[];
-  buttons: Array<{ text: string; selector: string }>;
-  links: Array<{ text: string; href: string; selector: string }>;
-  forms: Array<{ action: string; selector: string }>;
-  images: number;
-  scrollPosition: number;
-  scrollHeight: number;
-  viewportHeight: number;
-}
+// Full-page screenshots stop this far down (CSS pixels)
+const MAX_CAPTURE_HEIGHT = 8000;
 
 export class BrowserAgent {
-  private anthropic: Anthropic;
-  private browserbaseApiKey: string;
-  private browserbaseProjectId: string;
-  private maxRetries = 3;
+  private browserProvider: BrowserProvider;
+  private decisions: DecisionProvider;
+  private rateLimiters: RateLimiters;
 
   constructor(config?: {
     anthropicApiKey?: string;
     browserbaseApiKey?: string;
     browserbaseProjectId?: string;
+    browserProvider?: BrowserProvider;
+    decisionProvider?: DecisionProvider;
+    llm?: LLMClient;
+    rateLimiters?: RateLimiters;
   }) {
-    this.anthropic = new Anthropic({
-      apiKey: config?.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
+    this.browserProvider = config?.browserProvider || (
+      config?.browserbaseApiKey
+        ? new BrowserbaseProvider({ apiKey: config.browserbaseApiKey, projectId: config.browserbaseProjectId })
+        : getDefaultBrowserProvider()
+    );
+    this.rateLimiters = config?.rateLimiters || {};
+    this.decisions = config?.decisionProvider || new LLMDecisionProvider({
+      llm: config?.llm || (config?.anthropicApiKey
+        ? new LLMClient({ anthropicApiKey: config.anthropicApiKey })
+        : getLLMClient()),
+      rateLimiters: this.rateLimiters,
     });
-    this.browserbaseApiKey = config?.browserbaseApiKey || process.env.BROWSERBASE_API_KEY || '';
-    this.browserbaseProjectId = config?.browserbaseProjectId || process.env.BROWSERBASE_PROJECT_ID || '';
   }
 
   /**
@@ -62,12 +98,16 @@ export class BrowserAgent {
     const actions: AgentAction[] = [];
     const errors: string[] = [];
     
-    let browser: Browser | null = null;
+    let browserSession: BrowserSession | null = null;
     let converted = false;
     let conversionTrigger: string | undefined;
     let exitReason: string | undefined;
     let impression: 'positive' | 'neutral' | 'negative' = 'neutral';
     let feedback: string | undefined;
+    let failure: SessionFailure | undefined;
+    let phase: SessionPhase = 'setup';
+    let browserOpenedAt: number | null = null;
+    const meter = new UsageMeter();
 
     const metrics: SessionMetrics = {
       timeOnPage: 0,
@@ -83,26 +123,59 @@ export class BrowserAgent {
     };
 
     const maxDuration = (config.maxDurationSec || 60) * 1000;
+    const viewport = this.getViewportForDevice(config.persona.demographics.device);
+    // Lowest point of the page (document px) that has been on screen
+    let seenUntil = 0;
+    const identity = generateIdentity(config.persona);
+    // Journey progress: steps reached, and where the current step's actions start
+    const steps = goalSteps(config.conversionGoal);
+    const stepsReached: FunnelStepReached[] = [];
+    const detections: DetectorFiring[] = [];
+    let stepStartedAt = startedAt;
+    const pages: string[] = [];
+    const formProgress = createFormProgress();
+    let submissions: SubmissionWatcher | null = null;
+    let recorder: SessionRecorder | null = null;
+    const interactions: InteractionPoint[] = [];
+    const scrollTimeline: ScrollSample[] = [];
+    const attention = new Map<string, SectionAttention>();
+    let landingCapture: PageCapture | undefined;
+    const { signal } = config;
+
+    // Cancelling closes the browser, which fails any pending page operation
+    const onAbort = () => {
+      browserSession?.close().catch(() => {});
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      // Create Browserbase session
-      console.log(`[Agent:${sessionId}] Starting session for ${config.persona.name}`);
-      const bb = new Browserbase({ apiKey: this.browserbaseApiKey });
-      const session = await bb.sessions.create({ projectId: this.browserbaseProjectId });
-      
-      // Connect via Playwright
-      browser = await chromium.connectOverCDP(session.connectUrl);
-      const context = browser.contexts()[0];
-      const page = context.pages()[0] || await context.newPage();
-
-      // Set viewport based on persona device
-      const viewport = this.getViewportForDevice(config.persona.demographics.device);
-      await page.setViewportSize(viewport);
+      signal?.throwIfAborted();
+
+      // Open a browser session sized for the persona's device
+      console.log(`[Agent:${sessionId}] Starting ${this.browserProvider.name} session for ${config.persona.name}`);
+      await this.rateLimiters.browserSessions?.take(signal);
+      browserSession = await this.browserProvider.createSession({ viewport });
+      browserOpenedAt = Date.now();
+      if (signal?.aborted) onAbort();
+      const page = browserSession.page;
+      submissions = new SubmissionWatcher(page);
+      await submissions.attach();
+      const monitor = new ConversionMonitor(page, config.conversionGoal);
+      monitor.attach();
+      const input = new HumanInput(page, config.persona, viewport);
+      await input.attach();
+      if (config.recording) {
+        recorder = new SessionRecorder(page, config.recording, viewport);
+      }
 
       // Navigate to URL
+      phase = 'navigation';
       const navStart = Date.now();
-      await page.goto(config.url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+      const response = await page.goto(config.url, { waitUntil: 'domcontentloaded', timeout: 30000 });
       metrics.loadTimeMs = Date.now() - navStart;
+      if (response && response.status() >= 400) {
+        throw new SessionError('page', `Page returned HTTP ${response.status()}`, response.status() >= 500);
+      }
       
       actions.push({
         type: 'navigate',
@@ -110,34 +183,63 @@ export class BrowserAgent {
         timestamp: Date.now(),
         durationMs: metrics.loadTimeMs,
       });
+      pages.push(page.url());
+      const landingPage = stripHash(page.url());
+      const siteOrigin = new URL(page.url()).origin;
 
       // Inject variant changes if any
-      if (config.changes?.css) {
-        await page.addStyleTag({ content: config.changes.css });
-      }
-      if (config.changes?.js) {
-        await page.evaluate((js) => {
-          try { eval(js); } catch (e) { console.error('JS error:', e); }
-        }, config.changes.js);
-      }
+      await this.applyChanges(page, config.changes);
 
       // Wait for page to settle
       await page.waitForTimeout(500);
+      if (config.captureLandingPage) {
+        landingCapture = await this.captureFullPage(page, viewport.width);
+      }
+      scrollTimeline.push(await this.getScrollSample(page, startedAt));
+      phase = 'browsing';
 
       // Main browsing loop
       let iterationCount = 0;
       const maxIterations = 30; // Safety limit
       
-      while (Date.now() - startedAt < maxDuration && iterationCount < maxIterations) {
+      while (Date.now() - startedAt < maxDuration && iterationCount < maxIterations && !signal?.aborted) {
         iterationCount++;
+
+        // Following a link or submitting a form lands on a new page
+        await page.waitForLoadState('domcontentloaded').catch(() => {});
+        if (stripHash(page.url()) !== stripHash(pages[pages.length - 1])) {
+          pages.push(page.url());
+          seenUntil = 0;
+          actions.push({
+            type: 'navigate',
+            target: page.url(),
+            details: 'Moved to a new page',
+            timestamp: Date.now(),
+          });
+          // Variants change the landing page, wherever the journey returns to it
+          if (stripHash(page.url()) === landingPage) {
+            await this.applyChanges(page, config.changes);
+          }
+        }
         
         // Get page snapshot
-        const snapshot = await this.getPageSnapshot(page);
+        const snapshot = await this.getPageSnapshot(page, { viewport, seenUntil, perception: config.perception });
+        seenUntil = Math.max(seenUntil, snapshot.scrollPosition + snapshot.viewportHeight);
+        noteFormErrors(formProgress, snapshot);
+        await recorder?.capture(actions.length, snapshot.screenshot);
         
-        // Check for conversion
-        if (this.checkConversion(snapshot, config.conversionGoal, actions)) {
+        // Work through the goal's steps; reaching the last one converts
+        while (stepsReached.length < steps.length) {
+          const fired = await monitor.check(steps[stepsReached.length], stepStartedAt, submissions.submission);
+          if (!fired) break;
+          if (fired.type === 'form-submitted') submissions.reset();
+          detections.push(fired);
+          stepsReached.push({ step: fired.step, reachedAt: fired.firedAt });
+          stepStartedAt = fired.firedAt;
+        }
+        if (steps.length > 0 && stepsReached.length === steps.length) {
           converted = true;
-          conversionTrigger = this.identifyConversionTrigger(actions);
+          conversionTrigger = detections[detections.length - 1].detail;
           actions.push({
             type: 'convert',
             details: conversionTrigger,
@@ -146,14 +248,47 @@ export class BrowserAgent {
           break;
         }
 
+        // Wandering off to another site ends the journey
+        if (new URL(snapshot.url).origin !== siteOrigin) {
+          exitReason = 'Left the site';
+          actions.push({
+            type: 'leave',
+            target: snapshot.url,
+            details: exitReason,
+            timestamp: Date.now(),
+          });
+          break;
+        }
+
+        // A form that is too long or keeps rejecting input gets abandoned
+        const abandoned = shouldAbandonForm(config.persona, snapshot, formProgress);
+        if (abandoned) {
+          exitReason = abandoned;
+          actions.push({
+            type: 'leave',
+            target: formProgress.lastField,
+            details: abandoned,
+            reasoning: 'This form is more hassle than it is worth',
+            timestamp: Date.now(),
+          });
+          break;
+        }
+
         // Decide next action
-        const decision = await this.decideNextAction(
-          config.persona,
+        phase = 'decision';
+        const decision = await this.decisions.decide({
+          sessionId,
+          persona: config.persona,
+          variantId: config.variantId,
+          goal: config.conversionGoal,
+          stepsReached: stepsReached.length,
           snapshot,
-          actions,
-          config.conversionGoal,
-          metrics
-        );
+          previousActions: actions,
+          metrics,
+          signal,
+          meter,
+        });
+        phase = 'browsing';
 
         if (decision.action === 'leave') {
           exitReason = decision.reason || 'Decided to leave';
@@ -167,29 +302,52 @@ export class BrowserAgent {
         }
 
         // Execute the action
-        const actionResult = await this.executeAction(page, decision, metrics);
+        const actionResult = await this.executeAction(page, decision, metrics, {
+          snapshot,
+          identity,
+          formProgress,
+          submissions,
+          monitor,
+          interactions,
+          persona: config.persona,
+          attention,
+          input,
+        });
         actions.push({
           ...actionResult,
+          target: actionResult.target ?? this.describeTarget(decision.target, snapshot),
           reasoning: decision.reasoning,
         });
 
         // Update metrics
-        metrics.scrollDepth = await this.getScrollDepth(page);
-        metrics.scrollDepthPercent = (metrics.scrollDepth / snapshot.scrollHeight) * 100;
+        const scroll = await this.getScrollSample(page, startedAt);
+        scrollTimeline.push(scroll);
+        metrics.scrollDepth = scroll.depth;
+        metrics.scrollDepthPercent = scroll.depthPercent;
 
         // Brief pause between actions (varies by persona)
         const pauseTime = this.calculatePauseTime(config.persona, decision.action);
         await page.waitForTimeout(pauseTime);
       }
 
+      signal?.throwIfAborted();
+
+      // Out of time or turns: the last action's outcome hasn't been captured yet
+      const lastAction = actions[actions.length - 1];
+      if (lastAction && lastAction.type !== 'convert' && lastAction.type !== 'leave') {
+        await recorder?.capture(actions.length);
+      }
+
       // Session ended - get final impression
-      const finalSnapshot = await this.getPageSnapshot(page);
-      const impressionResult = await this.getPersonaImpression(
-        config.persona,
+      const impressionResult = await this.decisions.impression({
+        sessionId,
+        persona: config.persona,
+        variantId: config.variantId,
         actions,
         metrics,
-        converted
-      );
+        converted,
+        meter,
+      });
       impression = impressionResult.impression;
       feedback = impressionResult.feedback;
 
@@ -198,19 +356,36 @@ export class BrowserAgent {
       }
 
     } catch (error) {
-      const errMsg = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[Agent:${sessionId}] Error:`, errMsg);
-      errors.push(errMsg);
-      exitReason = `Error: ${errMsg}`;
+      if (signal?.aborted) {
+        console.log(`[Agent:${sessionId}] Cancelled`);
+        exitReason = 'Cancelled';
+      } else {
+        failure = classifyFailure(error, phase);
+        console.error(`[Agent:${sessionId}] ${failure.kind} error during ${phase}:`, failure.message);
+        errors.push(failure.message);
+        exitReason = `Error: ${failure.message}`;
+      }
     } finally {
-      if (browser) {
-        try { await browser.close(); } catch {}
+      signal?.removeEventListener('abort', onAbort);
+      this.decisions.endSession?.(sessionId);
+      if (browserSession) {
+        try { await browserSession.close(); } catch {}
       }
     }
 
     metrics.timeOnPage = Date.now() - startedAt;
     metrics.clickCount = actions.filter(a => a.type === 'click').length;
-    metrics.hoverCount = actions.filter(a => a.type === 'hover').length;
+    metrics.form = formMetrics(formProgress, Boolean(submissions?.submission));
+    metrics.pages = pages.length > 0 ? pages : undefined;
+    metrics.funnelSteps = config.conversionGoal.type === 'funnel' ? stepsReached : undefined;
+    metrics.interactions = interactions.length > 0 ? interactions : undefined;
+    metrics.scrollTimeline = scrollTimeline.length > 0 ? scrollTimeline : undefined;
+    metrics.attention = attention.size > 0 ? [...attention.values()] : undefined;
+    metrics.usage = sessionUsage(
+      meter.totals(),
+      browserOpenedAt ? (Date.now() - browserOpenedAt) / 60000 : 0,
+      this.browserProvider.costPerMinute ?? 0
+    );
 
     return {
       id: sessionId,
@@ -221,137 +396,235 @@ export class BrowserAgent {
       metrics,
       converted,
       conversionTrigger,
+      detections: detections.length > 0 ? detections : undefined,
       exitReason,
       impression,
       feedback,
       startedAt,
       endedAt: Date.now(),
       errors: errors.length > 0 ? errors : undefined,
+      cancelled: signal?.aborted || undefined,
+      failure,
+      landingPage: landingCapture,
+      recording: recorder?.finish(sessionId),
     };
   }
 
   /**
-   * Get a snapshot of the current page state
+   * Apply a variant's CSS and JS to the current page
    */
-  private async getPageSnapshot(page: Page): Promise<PageSnapshot> {
-    return await page.evaluate(() => {
-      const headings = Array.from(document.querySelectorAll('h1, h2, h3'))
-        .slice(0, 10)
-        .map(h => h.textContent?.trim() || '');
-
-      const buttons = Array.from(document.querySelectorAll('button, [role="button"], input[type="submit"]'))
-        .slice(0, 15)
-        .map((el, i) => ({
-          text: el.textContent?.trim() || (el as HTMLInputElement).value || 'Button',
-          selector: `button:nth-of-type(${i + 1})`,
-        }));
-
-      const links = Array.from(document.querySelectorAll('a[href]'))
-        .slice(0, 20)
-        .map((el, i) => ({
-          text: el.textContent?.trim() || 'Link',
-          href: (el as HTMLAnchorElement).href,
-          selector: `a:nth-of-type(${i + 1})`,
-        }));
-
-      const forms = Array.from(document.querySelectorAll('form'))
-        .map((el, i) => ({
-          action: el.action || 'form submit',
-          selector: `form:nth-of-type(${i + 1})`,
-        }));
+  private async applyChanges(page: Page, changes?: { css?: string; js?: string }): Promise<void> {
+    if (changes?.css) {
+      await page.addStyleTag({ content: changes.css });
+    }
+    if (changes?.js) {
+      await page.evaluate((js) => {
+        try { eval(js); } catch (e) { console.error('JS error:', e); }
+      }, changes.js);
+    }
+  }
+
+  /**
+   * Get a snapshot of the current page state. Elements are also split by
+   * where they sit relative to the persona's viewport: the first screen
+   * (above the fold), what is on screen now, and what lies below anything
+   * scrolled past so far (`seenUntil`, in document pixels).
+   */
+  private async getPageSnapshot(
+    page: Page,
+    options: { viewport: { width: number; height: number }; seenUntil: number; perception?: Perception }
+  ): Promise<PageSnapshot> {
+    const { perception = 'text' } = options;
+    const snapshot: PageSnapshot = await page.evaluate(({ foldHeight, seenUntil }) => {
+      const viewTop = window.scrollY;
+      const viewBottom = viewTop + window.innerHeight;
+      const seenBottom = Math.max(seenUntil, viewBottom);
+      const empty = (): ViewportContent => ({ headings: [], buttons: [], links: [] });
+      const regions = { aboveTheFold: empty(), visible: empty(), unseen: empty() };
+
+      /** Add an element to each region it falls in; hidden elements are in none */
+      const place = <K extends keyof ViewportContent>(el: Element, key: K, item: ViewportContent[K][number], limit: number) => {
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 && rect.height === 0) return;
+        const top = rect.top + viewTop;
+        const bottom = rect.bottom + viewTop;
+        const add = (content: ViewportContent) => {
+          const list = content[key] as ViewportContent[K][number][];
+          if (list.length < limit) list.push(item);
+        };
+        if (top < foldHeight) add(regions.aboveTheFold);
+        if (bottom > viewTop && top < viewBottom) add(regions.visible);
+        if (top >= seenBottom) add(regions.unseen);
+      };
+
+      const headingEls = Array.from(document.querySelectorAll('h1, h2, h3'));
+      const headings = headingEls.map(h => h.textContent?.trim() || '');
+      headingEls.forEach((el, i) => place(el, 'headings', headings[i], 10));
+
+      // Buttons and links are tagged like fields, so each selector matches
+      // exactly the element it was built from
+      const tag = (el: Element, attribute: string, id: number) => {
+        el.setAttribute(attribute, String(id));
+        return `[${attribute}="${id}"]`;
+      };
+      document.querySelectorAll('[data-swarm-button]').forEach(el => el.removeAttribute('data-swarm-button'));
+      document.querySelectorAll('[data-swarm-link]').forEach(el => el.removeAttribute('data-swarm-link'));
+
+      const buttonEls = Array.from(document.querySelectorAll('button, [role="button"], input[type="submit"]'));
+      const buttons = buttonEls.map((el, i) => ({
+        text: el.textContent?.trim() || (el as HTMLInputElement).value || 'Button',
+        selector: tag(el, 'data-swarm-button', i),
+      }));
+      buttonEls.forEach((el, i) => place(el, 'buttons', buttons[i], 15));
+
+      const linkEls = Array.from(document.querySelectorAll('a[href]'));
+      const links = linkEls.map((el, i) => ({
+        text: el.textContent?.trim() || 'Link',
+        href: (el as HTMLAnchorElement).href,
+        selector: tag(el, 'data-swarm-link', i),
+      }));
+      linkEls.forEach((el, i) => place(el, 'links', links[i], 20));
+
+      // Editable fields, grouped by form (fields outside any form share one
+      // group), each tagged with a data-swarm-field so its selector is stable
+      const fieldSelector = 'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]):not([type="file"]), select, textarea';
+      const describeField = (el: Element, id: string): FormField | null => {
+        const rect = el.getBoundingClientRect();
+        const input = el as HTMLInputElement;
+        if (rect.width === 0 || rect.height === 0 || input.disabled || input.readOnly) return null;
+        el.setAttribute('data-swarm-field', id);
+
+        const tag = el.tagName.toLowerCase();
+        const type = tag === 'input' ? (input.type || 'text') : tag;
+        const label = (input.labels?.[0]?.textContent || el.getAttribute('aria-label') || input.placeholder || input.name || type)
+          .replace(/\s+/g, ' ')
+          .replace(/\s*\*$/, '')
+          .trim();
+
+        // Native constraint errors once the user has interacted, ARIA errors,
+        // and error text the page renders next to the field
+        const invalid = el.getAttribute('aria-invalid') === 'true' || (() => {
+          try { return el.matches(':user-invalid'); } catch { return false; }
+        })();
+        const describedBy = el.getAttribute('aria-describedby')?.split(/\s+/)
+          .map(ref => document.getElementById(ref)?.textContent?.trim())
+          .find(Boolean);
+        const nearby = el.parentElement?.querySelector('[role="alert"], .error, .invalid-feedback, .field-error, .error-message')
+          ?.textContent?.trim();
+        const error = (invalid ? input.validationMessage || describedBy || nearby || 'Invalid value' : nearby) || undefined;
+
+        return {
+          selector: `[data-swarm-field="${id}"]`,
+          label: label.slice(0, 60),
+          name: input.name || '',
+          type,
+          autocomplete: el.getAttribute('autocomplete') || undefined,
+          options: tag === 'select'
+            ? Array.from((el as HTMLSelectElement).options).map(o => o.text.trim()).slice(0, 20)
+            : undefined,
+          required: input.required || el.getAttribute('aria-required') === 'true',
+          filled: type === 'checkbox' || type === 'radio' ? input.checked : Boolean(input.value),
+          error: error?.slice(0, 120),
+          inView: rect.bottom > 0 && rect.top < window.innerHeight,
+        };
+      };
+      const submitLabel = (root: Element) => {
+        const submit = root.querySelector('button[type="submit"], input[type="submit"], button:not([type])') as HTMLInputElement | null;
+        return submit ? (submit.textContent?.trim() || submit.value || 'Submit') : undefined;
+      };
+
+      const formEls = Array.from(document.querySelectorAll('form'));
+      const forms: FormSnapshot[] = formEls.map((el, i) => ({
+        action: el.action || 'form submit',
+        selector: `form:nth-of-type(${i + 1})`,
+        submitLabel: submitLabel(el),
+        fields: Array.from(el.querySelectorAll(fieldSelector))
+          .map((field, j) => describeField(field, `${i}-${j}`))
+          .filter((field): field is FormField => field !== null),
+      }));
+      const looseFields = Array.from(document.querySelectorAll(fieldSelector))
+        .filter(el => !el.closest('form'))
+        .map((field, j) => describeField(field, `page-${j}`))
+        .filter((field): field is FormField => field !== null);
+      if (looseFields.length > 0) {
+        forms.push({ action: '', selector: 'body', fields: looseFields });
+      }
 
       return {
         url: window.location.href,
         title: document.title,
-        headings,
-        buttons,
-        links,
+        headings: headings.slice(0, 10),
+        buttons: buttons.slice(0, 15),
+        links: links.slice(0, 20),
         forms,
         images: document.querySelectorAll('img').length,
         scrollPosition: window.scrollY,
         scrollHeight: document.documentElement.scrollHeight,
         viewportHeight: window.innerHeight,
+        regions,
       };
-    });
+    }, { foldHeight: options.viewport.height, seenUntil: options.seenUntil });
+
+    if (perception === 'vision') {
+      snapshot.visibleElements = await this.getVisibleElements(page);
+      const screenshot = await page.screenshot({ type: 'jpeg', quality: 60 });
+      snapshot.screenshot = screenshot.toString('base64');
+    }
+    return snapshot;
   }
 
   /**
-   * Use AI to decide the next action based on persona and page state
+   * Map the interactive elements inside the viewport, tagging each with
+   * a data-swarm-id so "@<id>" targets resolve back to it
    */
-  private async decideNextAction(
-    persona: Persona,
-    snapshot: PageSnapshot,
-    previousActions: AgentAction[],
-    goal: ConversionGoal,
-    metrics: SessionMetrics
-  ): Promise<{ action: AgentActionType; target?: string; reason?: string; reasoning: string }> {
-    
-    const prompt = `You are simulating a user persona browsing a webpage.
-
-PERSONA:
-- Name: ${persona.name}
-- Description: ${persona.description}
-- Device: ${persona.demographics.device}
-- Patience: ${persona.behavior.patience}/10
-- Thoroughness: ${persona.behavior.thoroughness}/10
-- Skepticism: ${persona.behavior.skepticism}/10
-- Instructions: ${persona.agentInstructions}
-
-CONVERSION GOAL: ${goal.description} (${goal.type}: ${goal.target})
-
-CURRENT PAGE STATE:
-- URL: ${snapshot.url}
-- Title: ${snapshot.title}
-- Scroll position: ${snapshot.scrollPosition}px / ${snapshot.scrollHeight}px total
-- Headings visible: ${snapshot.headings.slice(0, 5).join(', ')}
-- Buttons available: ${snapshot.buttons.slice(0, 8).map(b => b.text).join(', ')}
-- Links available: ${snapshot.links.slice(0, 8).map(l => l.text).join(', ')}
-
-ACTIONS TAKEN SO FAR (${previousActions.length}):
-${previousActions.slice(-5).map(a => `- ${a.type}: ${a.target || a.details || ''}`).join('\n')}
-
-TIME ON PAGE: ${metrics.timeOnPage / 1000}s
-
-Based on this persona's characteristics and the current page state, decide the next action.
-Consider: Would this persona be satisfied? Frustrated? Ready to convert? Ready to leave?
-
-Respond with JSON:
-{
-  "action": "click" | "scroll" | "hover" | "read" | "wait" | "leave" | "convert",
-  "target": "element selector or description (for click/hover)",
-  "reason": "why leaving (only if action is 'leave')",
-  "reasoning": "1-2 sentence explanation of why this persona would take this action"
-}
-
-IMPORTANT: Stay in character. A patient persona reads more. An impatient persona leaves quickly.`;
-
-    try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 500,
-        messages: [{ role: 'user', content: prompt }],
-      });
+  private async getVisibleElements(page: Page): Promise<VisibleElement[]> {
+    return await page.evaluate(() => {
+      document.querySelectorAll('[data-swarm-id]').forEach(el => el.removeAttribute('data-swarm-id'));
+
+      const selector = 'a[href], button, input:not([type="hidden"]), select, textarea, [role="button"], [role="link"]';
+      const visible: VisibleElement[] = [];
+      for (const el of Array.from(document.querySelectorAll(selector))) {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        if (
+          rect.width === 0 || rect.height === 0 ||
+          rect.bottom <= 0 || rect.top >= window.innerHeight ||
+          rect.right <= 0 || rect.left >= window.innerWidth ||
+          style.visibility === 'hidden' || style.display === 'none' || Number(style.opacity) === 0
+        ) {
+          continue;
+        }
 
-      const text = response.content[0].type === 'text' ? response.content[0].text : '';
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          action: parsed.action || 'scroll',
-          target: parsed.target,
-          reason: parsed.reason,
-          reasoning: parsed.reasoning || 'Continuing to browse',
-        };
+        const id = visible.length + 1;
+        el.setAttribute('data-swarm-id', String(id));
+        const input = el as HTMLInputElement;
+        visible.push({
+          id,
+          kind: el.getAttribute('role') || (el.tagName === 'A' ? 'link' : el.tagName.toLowerCase()),
+          text: (el.textContent?.trim() || input.value || input.placeholder || el.getAttribute('aria-label') || '')
+            .replace(/\s+/g, ' ')
+            .slice(0, 60),
+          box: {
+            x: Math.round(rect.left),
+            y: Math.round(rect.top),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+          },
+        });
+        if (visible.length >= 40) break;
       }
-    } catch (e) {
-      console.error('[BrowserAgent] Decision error:', e);
-    }
+      return visible;
+    });
+  }
 
-    // Default action: scroll
-    return {
-      action: 'scroll',
-      reasoning: 'Default action: scrolling to see more content',
-    };
+  /**
+   * Readable label for an action target: "@<id>" becomes the element's text
+   */
+  private describeTarget(target: string | undefined, snapshot: PageSnapshot): string | undefined {
+    const match = target?.match(/^@(\d+)$/);
+    if (!match) return target;
+    const element = snapshot.visibleElements?.find(e => e.id === Number(match[1]));
+    return element?.text || target;
   }
 
   /**
@@ -359,11 +632,25 @@ IMPORTANT: Stay in character. A patient persona reads more. An impatient persona
    */
   private async executeAction(
     page: Page,
-    decision: { action: AgentActionType; target?: string },
-    metrics: SessionMetrics
+    decision: { action: AgentActionType; target?: string; value?: string },
+    metrics: SessionMetrics,
+    context: {
+      snapshot: PageSnapshot;
+      identity: SyntheticIdentity;
+      formProgress: FormProgress;
+      submissions: SubmissionWatcher;
+      monitor: ConversionMonitor;
+      interactions: InteractionPoint[];
+      persona: Persona;
+      attention: Map<string, SectionAttention>;
+      input: HumanInput;
+    }
   ): Promise<AgentAction> {
     const timestamp = Date.now();
     const startTime = Date.now();
+    let details: string | undefined;
+    let target: string | undefined;
+    let value: string | undefined;
 
     try {
       switch (decision.action) {
@@ -372,36 +659,89 @@ IMPORTANT: Stay in character. A patient persona reads more. An impatient persona
             // Try to find and click the element
             const clickable = await this.findClickableElement(page, decision.target);
             if (clickable) {
-              await clickable.click();
+              // Journeys stay in one tab
+              await clickable.evaluate(el => (el as Element).closest('a')?.removeAttribute('target'));
+              const clicked = await context.monitor.describeClick(clickable);
+              const aim = await context.input.aim(clickable);
+              if (aim) {
+                this.recordInteraction(page, aim, 'click', decision.target, context.interactions);
+                // A banner or modal over the element takes the click instead
+                const onTarget = await clickable.evaluate((el, point) => {
+                  const hit = document.elementFromPoint(point.x, point.y);
+                  return hit !== null && el.contains(hit);
+                }, { x: aim.x, y: aim.y }).catch(() => false);
+                const { hesitated } = await context.input.click(aim);
+                if (hesitated) metrics.hesitationCount++;
+                if (onTarget) context.monitor.recordClick(clicked);
+                else details = 'Click landed on something covering the target';
+              } else {
+                await clickable.click();
+                context.monitor.recordClick(clicked);
+              }
               metrics.elementsEngaged.push(decision.target);
             }
           }
           break;
 
-        case 'scroll':
-          // Scroll based on persona scroll speed
-          const scrollAmount = 200 + Math.random() * 300;
-          await page.evaluate((amount) => {
-            window.scrollBy({ top: amount, behavior: 'smooth' });
-          }, scrollAmount);
+        case 'type':
+          if (decision.target) {
+            const mapped = findFormField(context.snapshot, decision.target);
+            const element = mapped
+              ? await page.$(mapped.selector)
+              : await this.findClickableElement(page, decision.target);
+            if (element) {
+              // Vision targets ("@3") resolve to the field through its tag
+              const tag = mapped ? null : await element.getAttribute('data-swarm-field');
+              const field = mapped || context.snapshot.forms
+                .flatMap(f => f.fields)
+                .find(f => f.selector === `[data-swarm-field="${tag}"]`);
+
+              const text = decision.value ?? (field ? fieldValue(context.identity, field) : context.identity.fullName);
+              const fillStart = Date.now();
+              await this.fillField(element, field?.type || 'text', text, context.input);
+
+              target = field?.label || decision.target;
+              value = field?.type === 'password' ? undefined : text;
+              const order = field
+                ? context.snapshot.forms.find(f => f.fields.includes(field))!.fields.indexOf(field)
+                : context.formProgress.fields.size;
+              recordFieldEntry(context.formProgress, field?.selector || decision.target, target, order, Date.now() - fillStart);
+              metrics.elementsEngaged.push(target);
+            }
+          }
           break;
 
+        case 'scroll': {
+          // Scroll as far and as fast as this persona does on their device
+          const moved = Math.round(await context.input.scroll());
+          details = moved > 0 ? `Scrolled ${moved}px` : 'Already at the bottom of the page';
+          break;
+        }
+
         case 'hover':
           if (decision.target) {
             const hoverable = await this.findClickableElement(page, decision.target);
-            if (hoverable) {
-              await hoverable.hover();
+            const aim = hoverable ? await context.input.aim(hoverable) : null;
+            if (aim && await context.input.hover(aim)) {
+              this.recordInteraction(page, aim, 'hover', decision.target, context.interactions);
               metrics.hoverCount++;
+            } else if (aim) {
+              details = 'Touch screens have no hover; looked at it instead';
             }
           }
           break;
 
-        case 'read':
-          // Simulate reading by waiting
-          const readTime = 1000 + Math.random() * 2000;
+        case 'read': {
+          // Dwell for as long as this persona would take over the text on screen
+          const readings = planReading(context.persona, await visibleSections(page), decision.target);
+          const readTime = readingTime(readings);
           await page.waitForTimeout(readTime);
           metrics.readTimeMs += readTime;
+
+          metrics.elementsEngaged.push(...recordAttention(context.attention, page.url(), readings));
+          details = describeReading(readings);
           break;
+        }
 
         case 'wait':
           await page.waitForTimeout(500 + Math.random() * 1000);
@@ -418,17 +758,51 @@ IMPORTANT: Stay in character. A patient persona reads more. An impatient persona
 
     return {
       type: decision.action,
-      target: decision.target,
+      target: target ?? decision.target,
+      details,
+      value,
       timestamp,
       durationMs: Date.now() - startTime,
     };
   }
 
+  /**
+   * Enter a value the way the field takes it: pick an option, tick a box,
+   * or type over the text, then leave the field so blur validation runs
+   */
+  private async fillField(element: ElementHandle, type: string, value: string, input: HumanInput): Promise<void> {
+    if (type === 'select') {
+      const aim = await input.aim(element);
+      if (aim) await input.hover(aim);
+      const byLabel = await element.selectOption({ label: value }, { timeout: 2000 }).catch(() => []);
+      if (byLabel.length === 0) {
+        await element.selectOption(value, { timeout: 2000 });
+      }
+    } else if (type === 'checkbox' || type === 'radio') {
+      const checked = !/^(no|false|off|0)$/i.test(value);
+      if (await element.isChecked() !== checked) {
+        const aim = await input.aim(element);
+        if (aim) await input.click(aim);
+        // Styled boxes often hide the real input under a label
+        if (await element.isChecked() !== checked) await element.setChecked(checked);
+      }
+    } else {
+      await input.type(element, value);
+    }
+    await element.evaluate(el => (el as HTMLElement).blur());
+  }
+
   /**
    * Find a clickable element by description or selector
    */
   private async findClickableElement(page: Page, target: string): Promise<ElementHandle | null> {
     try {
+      // Element from the vision map
+      const mapped = target.match(/^@(\d+)$/);
+      if (mapped) {
+        return await page.$(`[data-swarm-id="${mapped[1]}"]`);
+      }
+
       // Try exact selector first
       let element = await page.$(target);
       if (element) return element;
@@ -456,104 +830,6 @@ IMPORTANT: Stay in character. A patient persona reads more. An impatient persona
     return null;
   }
 
-  /**
-   * Check if a conversion has occurred
-   */
-  private checkConversion(
-    snapshot: PageSnapshot,
-    goal: ConversionGoal,
-    actions: AgentAction[]
-  ): boolean {
-    switch (goal.type) {
-      case 'click':
-        // Check if user clicked the target
-        return actions.some(a => 
-          a.type === 'click' && 
-          a.target?.toLowerCase().includes(goal.target.toLowerCase())
-        );
-
-      case 'submit':
-        // Check for form submission action
-        return actions.some(a => a.type === 'click' && 
-          (a.target?.toLowerCase().includes('submit') || 
-           a.target?.toLowerCase().includes('sign up') ||
-           a.target?.toLowerCase().includes('buy')));
-
-      case 'navigate':
-        // Check if URL matches goal
-        return snapshot.url.includes(goal.target);
-
-      default:
-        return false;
-    }
-  }
-
-  /**
-   * Identify what triggered the conversion
-   */
-  private identifyConversionTrigger(actions: AgentAction[]): string {
-    const lastClick = [...actions].reverse().find(a => a.type === 'click');
-    if (lastClick?.target) {
-      return `Clicked: ${lastClick.target}`;
-    }
-    return 'Unknown trigger';
-  }
-
-  /**
-   * Get persona's final impression of the page
-   */
-  private async getPersonaImpression(
-    persona: Persona,
-    actions: AgentAction[],
-    metrics: SessionMetrics,
-    converted: boolean
-  ): Promise<{ impression: 'positive' | 'neutral' | 'negative'; feedback: string }> {
-    const prompt = `You simulated the persona "${persona.name}" browsing a webpage.
-
-SESSION SUMMARY:
-- Time on page: ${(metrics.timeOnPage / 1000).toFixed(1)}s
-- Scroll depth: ${metrics.scrollDepthPercent.toFixed(0)}%
-- Clicks: ${metrics.clickCount}
-- Converted: ${converted ? 'Yes' : 'No'}
-- Actions: ${actions.length}
-
-Given this persona's characteristics:
-- Patience: ${persona.behavior.patience}/10
-- Skepticism: ${persona.behavior.skepticism}/10
-- Goal: ${persona.intent.goal}
-
-What would be their overall impression? Respond with JSON:
-{
-  "impression": "positive" | "neutral" | "negative",
-  "feedback": "1-2 sentence feedback in first person as this persona"
-}`;
-
-    try {
-      const response = await this.anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 200,
-        messages: [{ role: 'user', content: prompt }],
-      });
-
-      const text = response.content[0].type === 'text' ? response.content[0].text : '';
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          impression: parsed.impression || 'neutral',
-          feedback: parsed.feedback || 'No specific feedback',
-        };
-      }
-    } catch (e) {
-      console.error('[BrowserAgent] Impression error:', e);
-    }
-
-    return {
-      impression: converted ? 'positive' : 'neutral',
-      feedback: converted ? 'Found what I needed' : 'The page was okay',
-    };
-  }
-
   /**
    * Calculate pause time between actions based on persona
    */
@@ -574,10 +850,63 @@ What would be their overall impression? Respond with JSON:
   }
 
   /**
-   * Get current scroll depth
+   * Get current scroll depth, timed from the start of the session
+   */
+  private async getScrollSample(page: Page, startedAt: number): Promise<ScrollSample> {
+    const { depth, height } = await page.evaluate(() => ({
+      depth: window.scrollY + window.innerHeight,
+      height: document.documentElement.scrollHeight,
+    }));
+    return {
+      elapsedMs: Date.now() - startedAt,
+      url: page.url(),
+      depth,
+      depthPercent: Math.min(100, (depth / Math.max(height, 1)) * 100),
+    };
+  }
+
+  /**
+   * Record the spot on the page a click or hover is aimed at, with the
+   * box of the element it hits
+   */
+  private recordInteraction(
+    page: Page,
+    aim: Aim,
+    type: InteractionPoint['type'],
+    target: string,
+    interactions: InteractionPoint[]
+  ): void {
+    interactions.push({
+      type,
+      target,
+      url: page.url(),
+      x: aim.pageX,
+      y: aim.pageY,
+      box: aim.box,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Full-page screenshot at CSS pixel scale, cut off on very long pages.
+   * A failed capture just leaves the heatmap without a background.
    */
-  private async getScrollDepth(page: Page): Promise<number> {
-    return await page.evaluate(() => window.scrollY + window.innerHeight);
+  private async captureFullPage(page: Page, width: number): Promise<PageCapture | undefined> {
+    try {
+      const pageHeight = await page.evaluate(() => document.documentElement.scrollHeight);
+      const height = Math.min(pageHeight, MAX_CAPTURE_HEIGHT);
+      const screenshot = await page.screenshot({
+        type: 'jpeg',
+        quality: 50,
+        fullPage: true,
+        scale: 'css',
+        clip: { x: 0, y: 0, width, height },
+      });
+      return { screenshot: screenshot.toString('base64'), width, height };
+    } catch (error) {
+      console.warn('[BrowserAgent] Landing page capture failed:', error instanceof Error ? error.message : 'Unknown error');
+      return undefined;
+    }
   }
 
   /**
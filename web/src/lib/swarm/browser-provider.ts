@@ -0,0 +1,204 @@
+/**
+ * Swarm Browser Providers
+ * 
+ * Where agent sessions get their browser. Browserbase runs sessions in
+ * the cloud; the local provider launches headless Chromium on this
+ * machine, so swarms can run against localhost builds or in CI without
+ * any outside service.
+ */
+
+import Browserbase from '@browserbasehq/sdk';
+import { chromium, type Browser, type Page } from 'playwright-core';
+
+/**
+ * A browser page ready for one agent session
+ */
+export interface BrowserSession {
+  /** Page the agent drives */
+  page: Page;
+
+  /** Provider-specific session ID, for logs */
+  id: string;
+
+  /** Release the page and anything created for it. Safe to call twice. */
+  close(): Promise<void>;
+}
+
+/**
+ * Source of browser sessions
+ */
+export interface BrowserProvider {
+  /** Provider name, for logs */
+  readonly name: string;
+
+  /** USD per browser-session minute, for cost accounting (default 0) */
+  readonly costPerMinute?: number;
+
+  /** Open a page with the given viewport */
+  createSession(options: { viewport: { width: number; height: number } }): Promise<BrowserSession>;
+
+  /** Shut down shared resources (e.g. a launched browser) */
+  dispose?(): Promise<void>;
+}
+
+/**
+ * Provider selection
+ */
+export type BrowserProviderConfig =
+  | {
+      type: 'browserbase';
+      /** Defaults to BROWSERBASE_API_KEY */
+      apiKey?: string;
+      /** Defaults to BROWSERBASE_PROJECT_ID */
+      projectId?: string;
+      /** USD per session minute (defaults to BROWSERBASE_COST_PER_MINUTE, then 0.002) */
+      costPerMinute?: number;
+    }
+  | {
+      type: 'local';
+      /** Run without a visible window (default true, env SWARM_HEADLESS=false to show) */
+      headless?: boolean;
+      /** Chromium binary (defaults to CHROMIUM_PATH, then Playwright's installed browser) */
+      executablePath?: string;
+    };
+
+/**
+ * Cloud browsers from Browserbase, one remote session per agent session
+ */
+export class BrowserbaseProvider implements BrowserProvider {
+  readonly name = 'browserbase';
+  readonly costPerMinute: number;
+  private apiKey: string;
+  private projectId: string;
+
+  constructor(config?: { apiKey?: string; projectId?: string; costPerMinute?: number }) {
+    this.apiKey = config?.apiKey || process.env.BROWSERBASE_API_KEY || '';
+    this.projectId = config?.projectId || process.env.BROWSERBASE_PROJECT_ID || '';
+    this.costPerMinute = config?.costPerMinute
+      ?? (Number(process.env.BROWSERBASE_COST_PER_MINUTE) || 0.002);
+  }
+
+  async createSession(options: { viewport: { width: number; height: number } }): Promise<BrowserSession> {
+    if (!this.apiKey || !this.projectId) {
+      throw new Error('Browserbase credentials missing (BROWSERBASE_API_KEY / BROWSERBASE_PROJECT_ID)');
+    }
+
+    const bb = new Browserbase({ apiKey: this.apiKey });
+    const session = await bb.sessions.create({ projectId: this.projectId });
+
+    let browser;
+    try {
+      browser = await chromium.connectOverCDP(session.connectUrl);
+    } catch (error) {
+      // Release the remote session rather than paying for it until it times out
+      await bb.sessions.update(session.id, { projectId: this.projectId, status: 'REQUEST_RELEASE' }).catch(() => {});
+      throw error;
+    }
+    const close = once(() => browser.close());
+    try {
+      const context = browser.contexts()[0];
+      const page = context.pages()[0] || await context.newPage();
+      await page.setViewportSize(options.viewport);
+      return { page, id: session.id, close };
+    } catch (error) {
+      await close().catch(() => {});
+      throw error;
+    }
+  }
+}
+
+/**
+ * Headless Chromium on this machine. One browser is launched lazily and
+ * shared; each session gets its own isolated context.
+ */
+export class LocalChromiumProvider implements BrowserProvider {
+  readonly name = 'local';
+  private headless: boolean;
+  private executablePath?: string;
+  private browser: Promise<Browser> | null = null;
+  private sessionCount = 0;
+
+  constructor(config?: { headless?: boolean; executablePath?: string }) {
+    this.headless = config?.headless ?? process.env.SWARM_HEADLESS !== 'false';
+    this.executablePath = config?.executablePath || process.env.CHROMIUM_PATH || undefined;
+  }
+
+  async createSession(options: { viewport: { width: number; height: number } }): Promise<BrowserSession> {
+    const browser = await this.getBrowser();
+    const context = await browser.newContext({ viewport: options.viewport });
+    const close = once(() => context.close());
+    try {
+      const page = await context.newPage();
+      return { page, id: `local_${++this.sessionCount}`, close };
+    } catch (error) {
+      await close().catch(() => {});
+      throw error;
+    }
+  }
+
+  async dispose(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await (await browser).close().catch(() => {});
+    }
+  }
+
+  /**
+   * Launch the shared browser, relaunching if it crashed or was closed
+   */
+  private getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launch = chromium.launch({
+        headless: this.headless,
+        executablePath: this.executablePath,
+      });
+      this.browser = launch;
+      launch.then(
+        browser => browser.on('disconnected', () => {
+          if (this.browser === launch) this.browser = null;
+        }),
+        () => {
+          if (this.browser === launch) this.browser = null;
+        }
+      );
+    }
+    return this.browser;
+  }
+}
+
+/**
+ * Build a provider from config. Without one, Browserbase is used when its
+ * credentials are set (or SWARM_BROWSER_PROVIDER=browserbase), otherwise local Chromium.
+ */
+export function createBrowserProvider(config?: BrowserProviderConfig): BrowserProvider {
+  const type = config?.type
+    || (process.env.SWARM_BROWSER_PROVIDER as BrowserProviderConfig['type'] | undefined)
+    || (process.env.BROWSERBASE_API_KEY ? 'browserbase' : 'local');
+
+  if (type === 'local') {
+    return new LocalChromiumProvider(config?.type === 'local' ? config : undefined);
+  }
+  return new BrowserbaseProvider(config?.type === 'browserbase' ? config : undefined);
+}
+
+let defaultProvider: BrowserProvider | null = null;
+
+/**
+ * Process-wide provider chosen from the environment. Shared so the local
+ * provider launches one browser rather than one per runner.
+ */
+export function getDefaultBrowserProvider(): BrowserProvider {
+  if (!defaultProvider) {
+    defaultProvider = createBrowserProvider();
+  }
+  return defaultProvider;
+}
+
+/**
+ * Wrap a close function so repeated calls share the first result
+ */
+function once(fn: () => Promise<void>): () => Promise<void> {
+  let result: Promise<void> | null = null;
+  return () => (result ??= fn());
+}
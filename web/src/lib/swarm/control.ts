@@ -0,0 +1,61 @@
+/**
+ * Swarm Run Control
+ * 
+ * Cancel / pause / resume token for a running experiment. Works like an
+ * AbortController: the runner and its agents watch `signal`, and pausing
+ * holds back new sessions while in-flight ones finish.
+ */
+
+export type RunControlState = 'running' | 'paused' | 'cancelled';
+
+export class RunControl {
+  private controller = new AbortController();
+  private paused = false;
+  private waiters: Array<() => void> = [];
+
+  /** Aborted when the run is cancelled */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get state(): RunControlState {
+    if (this.controller.signal.aborted) return 'cancelled';
+    return this.paused ? 'paused' : 'running';
+  }
+
+  /**
+   * Stop starting new sessions until resumed
+   */
+  pause(): void {
+    if (!this.controller.signal.aborted) this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.release();
+  }
+
+  /**
+   * Abort in-flight sessions and stop the run; completed sessions are still analyzed
+   */
+  cancel(reason = 'Cancelled by user'): void {
+    if (this.controller.signal.aborted) return;
+    this.paused = false;
+    this.controller.abort(reason);
+    this.release();
+  }
+
+  /**
+   * Resolves immediately unless paused, otherwise once resumed or cancelled
+   */
+  waitWhilePaused(): Promise<void> {
+    if (!this.paused) return Promise.resolve();
+    return new Promise(resolve => this.waiters.push(resolve));
+  }
+
+  private release(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
@@ -0,0 +1,534 @@
+/**
+ * Swarm Decision Providers
+ *
+ * What a BrowserAgent does next. The LLM provider asks the browsing
+ * model to decide in character; the replay provider feeds back decisions recorded in an
+ * earlier experiment; the rule-based provider derives them from the
+ * persona's behavior scores. The last two need no API key and give the
+ * same decisions every run, for regression tests and for re-running old
+ * experiments against new page builds.
+ */
+
+import { getLLMClient, type LLMClient, type UsageMeter } from '../llm';
+import { generateIdentity, type Persona } from '../persona';
+import type { ExperimentStore } from '../store';
+import type { RateLimiters } from './rate-limit';
+import { SessionError } from './failures';
+import { mulberry32 } from './bayesian';
+import { hashString } from '../utils';
+import { activeStep, goalSteps } from './funnel';
+import type {
+  AgentAction,
+  AgentDecision,
+  AgentSession,
+  ConversionGoal,
+  ConversionStep,
+  ExperimentConfig,
+  FormSnapshot,
+  PageSnapshot,
+  SessionMetrics,
+} from './types';
+
+/**
+ * Everything a provider sees when choosing the next action
+ */
+export interface DecisionContext {
+  /** Agent session being decided for */
+  sessionId: string;
+
+  /** Persona being simulated */
+  persona: Persona;
+
+  /** Variant being browsed */
+  variantId: string;
+
+  /** What counts as converting */
+  goal: ConversionGoal;
+
+  /** Steps of the goal reached so far (0 until the first; single goals have one step) */
+  stepsReached?: number;
+
+  /** Current page state */
+  snapshot: PageSnapshot;
+
+  /** Actions taken so far, starting with the navigation */
+  previousActions: AgentAction[];
+
+  /** Metrics collected so far */
+  metrics: SessionMetrics;
+
+  /** Aborts when the session is cancelled */
+  signal?: AbortSignal;
+
+  /** Session's meter for model usage */
+  meter?: UsageMeter;
+}
+
+/**
+ * Everything a provider sees when summing up a finished session
+ */
+export interface ImpressionContext {
+  /** Agent session that finished */
+  sessionId: string;
+
+  /** Persona that was simulated */
+  persona: Persona;
+
+  /** Variant that was browsed */
+  variantId: string;
+
+  /** All actions taken */
+  actions: AgentAction[];
+
+  /** Final metrics */
+  metrics: SessionMetrics;
+
+  /** Whether the session converted */
+  converted: boolean;
+
+  /** Session's meter for model usage */
+  meter?: UsageMeter;
+}
+
+/**
+ * The persona's overall verdict on a page
+ */
+export interface PersonaImpression {
+  impression: 'positive' | 'neutral' | 'negative';
+  feedback: string;
+}
+
+/**
+ * Source of agent decisions
+ */
+export interface DecisionProvider {
+  /** Provider name, for logs */
+  readonly name: string;
+
+  /** Choose the next action */
+  decide(context: DecisionContext): Promise<AgentDecision>;
+
+  /** Final impression once the session is over */
+  impression(context: ImpressionContext): Promise<PersonaImpression>;
+
+  /** Called when a session ends, successfully or not, to drop per-session state */
+  endSession?(sessionId: string): void;
+}
+
+/**
+ * The 'browsing' model decides in character. Nondeterministic and needs a
+ * model endpoint.
+ */
+export class LLMDecisionProvider implements DecisionProvider {
+  readonly name = 'llm';
+  private llm: LLMClient;
+  private rateLimiters: RateLimiters;
+  private maxRetries: number;
+
+  constructor(config?: {
+    llm?: LLMClient;
+    rateLimiters?: RateLimiters;
+    /** Attempts at getting a parseable decision (default 3) */
+    maxRetries?: number;
+  }) {
+    this.llm = config?.llm || getLLMClient();
+    this.rateLimiters = config?.rateLimiters || {};
+    this.maxRetries = config?.maxRetries || 3;
+  }
+
+  async decide(context: DecisionContext): Promise<AgentDecision> {
+    const { persona, snapshot, previousActions, goal, metrics, signal, meter, stepsReached = 0 } = context;
+    const vision = Boolean(snapshot.screenshot && snapshot.visibleElements);
+
+    // Only what is on screen now; older snapshots without regions list the whole page
+    const inView = snapshot.regions?.visible ?? snapshot;
+    const unseen = snapshot.regions?.unseen;
+    const unseenCount = unseen ? unseen.headings.length + unseen.buttons.length + unseen.links.length : 0;
+
+    // Form fields on screen, and the persona's details to fill them with
+    const forms = snapshot.forms.filter(f => f.fields.some(field => field.inView));
+    const fields = forms.flatMap(f => f.fields.filter(field => field.inView));
+    const identity = fields.length > 0 ? generateIdentity(persona) : null;
+
+    const prompt = `You are simulating a user persona browsing a webpage.
+
+PERSONA:
+- Name: ${persona.name}
+- Description: ${persona.description}
+- Device: ${persona.demographics.device}
+- Patience: ${persona.behavior.patience}/10
+- Thoroughness: ${persona.behavior.thoroughness}/10
+- Skepticism: ${persona.behavior.skepticism}/10
+- Instructions: ${persona.agentInstructions}
+
+CONVERSION GOAL: ${goal.type === 'funnel'
+  ? `${goal.description}, a journey across pages:
+${goalSteps(goal).map((step, i) => `${i + 1}. ${i < stepsReached ? '[done] ' : i === stepsReached ? '[next] ' : ''}${step.name} (${step.type}: ${step.target})`).join('\n')}
+You can follow links to other pages of the site to get there.`
+  : `${goal.description} (${goal.type}: ${goal.target})`}
+
+CURRENT PAGE STATE:
+- URL: ${snapshot.url}
+- Title: ${snapshot.title}
+- Scroll position: ${snapshot.scrollPosition}px / ${snapshot.scrollHeight}px total
+- Headings on screen: ${inView.headings.slice(0, 5).join(', ') || 'none'}
+- Buttons on screen: ${inView.buttons.slice(0, 8).map(b => b.text).join(', ') || 'none'}
+- Links on screen: ${inView.links.slice(0, 8).map(l => l.text).join(', ') || 'none'}${unseen ? `
+- Further down: ${unseenCount > 0 ? 'more content you have not scrolled to yet' : 'nothing you have not already seen'}` : ''}
+${vision ? `
+WHAT YOU SEE: the attached screenshot is your current viewport. Judge the page as this
+persona would from its look: imagery, visual hierarchy, contrast, what stands out.
+Interactive elements in view (id, kind, text, position x,y and size in px):
+${snapshot.visibleElements!.map(e => `@${e.id} ${e.kind} "${e.text}" at ${e.box.x},${e.box.y} ${e.box.width}x${e.box.height}`).join('\n')}
+` : ''}${identity ? `
+FORM FIELDS ON SCREEN:
+${fields.map(f => `- "${f.label}" (${f.type}${f.required ? ', required' : ''}): ${f.error ? `ERROR "${f.error}"` : f.filled ? 'filled' : 'empty'}${f.options ? ` [options: ${f.options.slice(0, 8).join(' / ')}]` : ''}`).join('\n')}
+Fill a field with action "type", the field's label as target and what to enter as value.
+Submit by clicking ${forms.map(f => f.submitLabel ? `"${f.submitLabel}"` : 'the form\'s button').join(' or ')}. Fix fields showing an ERROR first.
+YOUR DETAILS (enter these if you decide to fill in the form): ${identity.fullName}, ${identity.email}, ${identity.phone}, ${identity.jobTitle} at ${identity.company} (${identity.companySize} employees), ${identity.city}, ${identity.country}
+` : ''}
+ACTIONS TAKEN SO FAR (${previousActions.length}):
+${previousActions.slice(-5).map(a => `- ${a.type}: ${a.target || a.details || ''}${a.value ? ` = "${a.value}"` : ''}`).join('\n')}
+
+TIME ON PAGE: ${metrics.timeOnPage / 1000}s
+
+Based on this persona's characteristics and the current page state, decide the next action.
+Consider: Would this persona be satisfied? Frustrated? Ready to convert? Ready to leave?
+
+Respond with JSON:
+{
+  "action": "click" | "scroll" | "hover" | "type" | "read" | "wait" | "leave" | "convert",
+  "target": "${vision ? '@id of a visible element, or ' : ''}element selector or description (for click/hover/type), or the heading of the section to focus on (for read)",
+  "value": "text to enter (only for type)",
+  "reason": "why leaving (only if action is 'leave')",
+  "reasoning": "1-2 sentence explanation of why this persona would take this action"
+}
+
+IMPORTANT: Stay in character. A patient persona reads more. An impatient persona leaves quickly.`;
+
+    // API errors end the session (the runner retries transient ones);
+    // unusable replies are asked for again
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      await this.rateLimiters.anthropic?.take(signal);
+      const { text } = await this.llm.complete({
+        role: 'browsing',
+        prompt,
+        images: vision ? [{ mediaType: 'image/jpeg', data: snapshot.screenshot! }] : undefined,
+        maxTokens: 500,
+        signal,
+        meter,
+      });
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        try {
+          const parsed = JSON.parse(jsonMatch[0]);
+          return {
+            action: parsed.action || 'scroll',
+            target: parsed.target,
+            value: parsed.value != null ? String(parsed.value) : undefined,
+            reason: parsed.reason,
+            reasoning: parsed.reasoning || 'Continuing to browse',
+          };
+        } catch {
+          // Fall through to retry
+        }
+      }
+      console.warn(`[LLMDecisionProvider] Unparseable decision (attempt ${attempt}/${this.maxRetries})`);
+    }
+
+    throw new SessionError('agent-parse', `No valid decision after ${this.maxRetries} attempts`);
+  }
+
+  async impression(context: ImpressionContext): Promise<PersonaImpression> {
+    const { persona, actions, metrics, converted, meter } = context;
+
+    const prompt = `You simulated the persona "${persona.name}" browsing a webpage.
+
+SESSION SUMMARY:
+- Time on page: ${(metrics.timeOnPage / 1000).toFixed(1)}s
+- Scroll depth: ${metrics.scrollDepthPercent.toFixed(0)}%
+- Clicks: ${metrics.clickCount}
+- Converted: ${converted ? 'Yes' : 'No'}
+- Actions: ${actions.length}
+
+Given this persona's characteristics:
+- Patience: ${persona.behavior.patience}/10
+- Skepticism: ${persona.behavior.skepticism}/10
+- Goal: ${persona.intent.goal}
+
+What would be their overall impression? Respond with JSON:
+{
+  "impression": "positive" | "neutral" | "negative",
+  "feedback": "1-2 sentence feedback in first person as this persona"
+}`;
+
+    try {
+      await this.rateLimiters.anthropic?.take();
+      const { text } = await this.llm.complete({ role: 'browsing', prompt, maxTokens: 200, meter });
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        const parsed = JSON.parse(jsonMatch[0]);
+        return {
+          impression: parsed.impression || 'neutral',
+          feedback: parsed.feedback || 'No specific feedback',
+        };
+      }
+    } catch (e) {
+      console.error('[LLMDecisionProvider] Impression error:', e);
+    }
+
+    return {
+      impression: converted ? 'positive' : 'neutral',
+      feedback: converted ? 'Found what I needed' : 'The page was okay',
+    };
+  }
+}
+
+/**
+ * Provider for an experiment's `decisions` setting, or undefined to leave
+ * the agent on the LLM
+ */
+export async function decisionProviderFor(
+  config: ExperimentConfig,
+  store?: ExperimentStore
+): Promise<DecisionProvider | undefined> {
+  switch (config.decisions) {
+    case 'replay':
+      if (!config.replayExperimentId || !store) {
+        throw new Error('Replaying decisions needs replayExperimentId and an experiment store');
+      }
+      return ReplayDecisionProvider.fromStore(store, config.replayExperimentId);
+    case 'rules':
+      return new RuleBasedDecisionProvider();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Feeds back the decisions of recorded sessions. Each new session takes
+ * the next unused transcript for the same persona and variant, replays its
+ * actions step by step and leaves when the transcript runs out.
+ */
+export class ReplayDecisionProvider implements DecisionProvider {
+  readonly name = 'replay';
+  private transcripts = new Map<string, AgentSession[]>();
+  private assigned = new Map<string, { key: string; session: AgentSession; finished: boolean }>();
+
+  constructor(sessions: AgentSession[]) {
+    // Failed and cancelled sessions never made it to a real decision sequence
+    for (const session of sessions) {
+      if (session.failure || session.cancelled) continue;
+      const key = transcriptKey(session.persona.id, session.variantId);
+      const queue = this.transcripts.get(key) || [];
+      queue.push(session);
+      this.transcripts.set(key, queue);
+    }
+  }
+
+  /**
+   * Replay the sessions an experiment recorded in the store
+   */
+  static async fromStore(store: ExperimentStore, experimentId: string): Promise<ReplayDecisionProvider> {
+    const sessions = await store.getSessions(experimentId);
+    if (sessions.length === 0) {
+      throw new Error(`No recorded sessions for experiment ${experimentId}`);
+    }
+    return new ReplayDecisionProvider(sessions);
+  }
+
+  async decide(context: DecisionContext): Promise<AgentDecision> {
+    const recorded = this.transcriptFor(context.sessionId, context.persona.id, context.variantId);
+    const steps = recordedDecisions(recorded.actions);
+    const step = context.previousActions.filter(a => a.type !== 'navigate').length;
+
+    const action = steps[step];
+    if (!action) {
+      return { action: 'leave', reason: 'Recorded session ended', reasoning: 'Replay transcript exhausted' };
+    }
+    return {
+      action: action.type,
+      target: action.target,
+      value: action.value,
+      reason: action.type === 'leave' ? action.details : undefined,
+      reasoning: action.reasoning || 'Replayed decision',
+    };
+  }
+
+  async impression(context: ImpressionContext): Promise<PersonaImpression> {
+    const entry = this.assigned.get(context.sessionId);
+    if (entry) entry.finished = true;
+    const recorded = entry?.session;
+
+    return {
+      impression: recorded?.impression || (context.converted ? 'positive' : 'neutral'),
+      feedback: recorded?.feedback || 'Replayed session',
+    };
+  }
+
+  endSession(sessionId: string): void {
+    const entry = this.assigned.get(sessionId);
+    if (!entry) return;
+    this.assigned.delete(sessionId);
+
+    // A session that failed part-way hands its transcript to the retry
+    if (!entry.finished) {
+      this.transcripts.get(entry.key)?.unshift(entry.session);
+    }
+  }
+
+  /**
+   * Transcript assigned to a session, claiming the next one on first use
+   */
+  private transcriptFor(sessionId: string, personaId: string, variantId: string): AgentSession {
+    const existing = this.assigned.get(sessionId);
+    if (existing) return existing.session;
+
+    const key = transcriptKey(personaId, variantId);
+    const session = this.transcripts.get(key)?.shift();
+    if (!session) {
+      throw new SessionError('agent-parse', `No recorded transcript for persona ${personaId} on ${variantId}`);
+    }
+    this.assigned.set(sessionId, { key, session, finished: false });
+    return session;
+  }
+}
+
+/**
+ * Decisions from the persona's behavior scores alone. Seeded per persona,
+ * variant and step, so the same page gives the same session every run.
+ */
+export class RuleBasedDecisionProvider implements DecisionProvider {
+  readonly name = 'rules';
+  private seed: number;
+
+  constructor(config?: { seed?: number }) {
+    this.seed = config?.seed ?? 42;
+  }
+
+  async decide(context: DecisionContext): Promise<AgentDecision> {
+    const { persona, snapshot, previousActions, stepsReached = 0 } = context;
+    const behavior = persona.behavior;
+    const step = previousActions.filter(a => a.type !== 'navigate').length;
+    const random = mulberry32(hashString(`${this.seed}:${persona.id}:${context.variantId}:${step}`));
+
+    // Work towards the next journey step (a single goal is its only step)
+    const goal = activeStep(context.goal, stepsReached)
+      ?? { name: context.goal.description, type: 'click', target: context.goal.target };
+
+    // Patient personas give the page more steps before giving up, and
+    // every journey step reached buys a few more
+    const budget = Math.round(4 + behavior.patience * 1.5) + stepsReached * 3;
+    if (step >= budget) {
+      return { action: 'leave', reason: 'Ran out of patience', reasoning: `Spent ${step} steps without finding a reason to stay` };
+    }
+
+    const bottom = snapshot.scrollPosition + snapshot.viewportHeight;
+    const seen = snapshot.scrollHeight > 0 ? Math.min(1, bottom / snapshot.scrollHeight) : 1;
+    const atEnd = seen >= 0.98;
+
+    // Skeptical, thorough personas want to see more of the page before acting
+    const cta = findGoalTarget(snapshot, goal);
+    const convinced = seen >= (behavior.skepticism / 10) * (behavior.thoroughness / 10);
+
+    // Once convinced, work through a form on screen and submit it (a lone
+    // optional field is a search box, not the form)
+    const form = goal.type === 'submit' && convinced
+      ? snapshot.forms.find(f =>
+          f.fields.some(field => field.inView) &&
+          (f.fields.length > 1 || f.fields.some(field => field.required)))
+      : undefined;
+    const formStep = form && nextFormStep(form);
+    if (formStep) return formStep;
+
+    if (cta && convinced && random() < (behavior.clickiness / 10) * (0.3 + 0.7 * seen)) {
+      return { action: 'click', target: cta, reasoning: `"${cta}" matches what I came for` };
+    }
+
+    if (random() < (10 - behavior.patience) / 40) {
+      return { action: 'leave', reason: 'Lost interest', reasoning: 'Nothing here held my attention' };
+    }
+
+    if (atEnd) {
+      if (cta && !convinced) {
+        return { action: 'leave', reason: 'Not convinced', reasoning: 'Read to the end and still was not persuaded' };
+      }
+      return step % 2 === 0 && (snapshot.regions?.visible ?? snapshot).headings.length > 0
+        ? { action: 'read', reasoning: 'Re-reading the key points before deciding' }
+        : { action: 'leave', reason: 'Reached the end of the page', reasoning: 'Saw everything and found no next step' };
+    }
+
+    if (random() < behavior.thoroughness / 20) {
+      return { action: 'read', reasoning: 'Reading this section properly' };
+    }
+    const onScreen = (snapshot.regions?.visible ?? snapshot).buttons;
+    if (onScreen.length > 0 && random() < behavior.clickiness / 40) {
+      const button = onScreen[Math.floor(random() * onScreen.length)];
+      return { action: 'hover', target: button.text, reasoning: `Curious about "${button.text}"` };
+    }
+    return { action: 'scroll', reasoning: 'Scrolling to see more' };
+  }
+
+  async impression(context: ImpressionContext): Promise<PersonaImpression> {
+    const { persona, metrics, converted } = context;
+
+    if (converted) {
+      return { impression: 'positive', feedback: 'Found what I needed' };
+    }
+    if (metrics.scrollDepthPercent < 40 && persona.behavior.patience <= 4) {
+      return { impression: 'negative', feedback: 'Could not tell quickly enough whether this was for me' };
+    }
+    return { impression: 'neutral', feedback: 'The page was okay' };
+  }
+}
+
+/**
+ * Map key for the transcripts of one persona on one variant
+ */
+function transcriptKey(personaId: string, variantId: string): string {
+  return `${variantId}:${personaId}`;
+}
+
+/**
+ * The actions of a recorded session that were decisions, in order.
+ * Skips the opening navigation and the convert marker added on detection.
+ */
+function recordedDecisions(actions: AgentAction[]): AgentAction[] {
+  return actions.filter(a => a.type !== 'navigate' && !(a.type === 'convert' && !a.reasoning));
+}
+
+/**
+ * Next field to fill in a form (the value comes from the persona's
+ * identity), or its submit button once the required fields are done
+ */
+function nextFormStep(form: FormSnapshot): AgentDecision | undefined {
+  const next = form.fields.find(f =>
+    f.inView && !f.filled && (f.required || (f.type !== 'checkbox' && f.type !== 'radio'))
+  );
+  if (next) {
+    return { action: 'type', target: next.selector, reasoning: `Filling in "${next.label}"` };
+  }
+  if (form.submitLabel && form.fields.every(f => !f.required || f.filled)) {
+    return { action: 'click', target: form.submitLabel, reasoning: 'Form is filled in, sending it' };
+  }
+  return undefined;
+}
+
+/**
+ * Text of a button or link that looks like the conversion goal
+ */
+function findGoalTarget(snapshot: PageSnapshot, goal: ConversionStep): string | undefined {
+  const target = goal.target.toLowerCase();
+
+  // A persona can only click what is on screen
+  const inView = snapshot.regions?.visible ?? snapshot;
+  if (goal.type === 'navigate') {
+    return target ? inView.links.find(l => l.href.toLowerCase().includes(target))?.text : undefined;
+  }
+
+  const candidates = [...inView.buttons, ...inView.links].map(el => el.text);
+  return (target ? candidates.find(text => text.toLowerCase().includes(target)) : undefined)
+    || (goal.type === 'submit'
+      ? candidates.find(text => /submit|sign up|buy/i.test(text))
+      : undefined);
+}
@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { stepDetectors } from './detectors';
+
+describe('stepDetectors', () => {
+  it('builds a default detector from the step type and target', () => {
+    assert.deepEqual(stepDetectors({ name: 'CTA', type: 'click', target: 'Sign up' }), [
+      { type: 'element-clicked', selector: 'Sign up', text: 'Sign up' },
+    ]);
+    assert.deepEqual(stepDetectors({ name: 'Pricing', type: 'navigate', target: '/pricing?plan=pro' }), [
+      { type: 'url', pattern: '/pricing\\?plan=pro' },
+    ]);
+    assert.deepEqual(stepDetectors({ name: 'Signup', type: 'submit', target: '/api/signup' }), [
+      { type: 'form-submitted', urlPattern: '/api/signup' },
+    ]);
+  });
+
+  it('prefers the step\'s own detectors', () => {
+    const detectors = [{ type: 'dom' as const, selector: '.thanks' }];
+    assert.equal(stepDetectors({ name: 'Done', type: 'custom', target: '', detectors }), detectors);
+  });
+
+  it('has nothing to detect a custom step without detectors', () => {
+    assert.deepEqual(stepDetectors({ name: 'Done', type: 'custom', target: '' }), []);
+  });
+});
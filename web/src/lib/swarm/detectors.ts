@@ -0,0 +1,210 @@
+/**
+ * Swarm Conversion Detectors
+ *
+ * Decides that a goal step is reached from what actually happened on the
+ * page: the element the agent really clicked, the URLs it passed through,
+ * the requests the page made, what is on screen, or a custom in-page
+ * predicate. Steps without explicit detectors get one built from their
+ * type and target.
+ */
+
+import type { ElementHandle, Page } from 'playwright-core';
+import type { FormSubmission } from './forms';
+import { goalSteps } from './funnel';
+import type { ConversionDetector, ConversionGoal, ConversionStep, DetectorFiring } from './types';
+
+/**
+ * Detectors for a step: its own, or the default for its type
+ */
+export function stepDetectors(step: ConversionStep): ConversionDetector[] {
+  if (step.detectors?.length) return step.detectors;
+  if (!step.target && step.type !== 'submit') return [];
+
+  switch (step.type) {
+    case 'click':
+      return [{ type: 'element-clicked', selector: step.target, text: step.target }];
+    case 'navigate':
+      return [{ type: 'url', pattern: escapeRegExp(step.target) }];
+    case 'submit':
+      return [{ type: 'form-submitted', urlPattern: /^(\/|https?:)/.test(step.target) ? escapeRegExp(step.target) : undefined }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * An element the agent clicked, as the element-clicked detector sees it
+ */
+export interface ClickedElement {
+  /** Visible text, value or aria-label */
+  text: string;
+
+  /** Goal selectors the element (or an ancestor) matches */
+  selectors: string[];
+}
+
+/**
+ * Records clicks, navigations and responses on a page and checks goal
+ * steps against them. Events are timestamped so a step only counts what
+ * happened after the previous step was reached.
+ */
+export class ConversionMonitor {
+  private clicks: Array<ClickedElement & { at: number }> = [];
+  private visits: Array<{ at: number; url: string }> = [];
+  private responses: Array<{ at: number; method: string; url: string; status: number }> = [];
+  private selectors: string[];
+
+  constructor(private page: Page, goal: ConversionGoal) {
+    // Clicked elements are matched when clicked, before a navigation detaches them
+    this.selectors = [...new Set(goalSteps(goal)
+      .flatMap(stepDetectors)
+      .flatMap(d => d.type === 'element-clicked' && d.selector ? [d.selector] : []))];
+  }
+
+  /**
+   * Start recording navigations and responses
+   */
+  attach(): void {
+    this.page.on('framenavigated', frame => {
+      if (frame === this.page.mainFrame()) {
+        this.visits.push({ at: Date.now(), url: frame.url() });
+      }
+    });
+    this.page.on('response', response => {
+      const request = response.request();
+      if (['document', 'xhr', 'fetch'].includes(request.resourceType())) {
+        this.responses.push({ at: Date.now(), method: request.method(), url: response.url(), status: response.status() });
+      }
+    });
+  }
+
+  /**
+   * Describe an element the agent is about to click (call before clicking,
+   * while the element is still attached)
+   */
+  async describeClick(element: ElementHandle): Promise<ClickedElement> {
+    return element.evaluate((node, selectors) => {
+      const el = node as HTMLElement;
+      return {
+        text: (el.innerText || (el as HTMLInputElement).value || el.getAttribute('aria-label') || '').trim(),
+        // The element or an ancestor matches; invalid selectors never do
+        selectors: selectors.filter(sel => {
+          try { return el.closest(sel) !== null; } catch { return false; }
+        }),
+      };
+    }, this.selectors).catch(() => ({ text: '', selectors: [] as string[] }));
+  }
+
+  /**
+   * Record a click once it has gone through, so one that fails or lands
+   * on something else never converts
+   */
+  recordClick(clicked: ClickedElement): void {
+    this.clicks.push({ at: Date.now(), ...clicked });
+  }
+
+  /**
+   * First detector of a step that fires on events since `since`
+   */
+  async check(
+    step: ConversionStep,
+    since: number,
+    submission: FormSubmission | null
+  ): Promise<DetectorFiring | null> {
+    for (const detector of stepDetectors(step)) {
+      const fired = await this.evaluate(detector, since, submission);
+      if (fired) return { type: detector.type, step: step.name, ...fired };
+    }
+    return null;
+  }
+
+  private async evaluate(
+    detector: ConversionDetector,
+    since: number,
+    submission: FormSubmission | null
+  ): Promise<{ detail: string; firedAt: number } | null> {
+    switch (detector.type) {
+      case 'element-clicked': {
+        for (const click of this.clicks.filter(c => c.at >= since)) {
+          const text = detector.text?.toLowerCase();
+          if (text && click.text.toLowerCase().includes(text)) {
+            return { detail: `Clicked "${click.text.slice(0, 60)}"`, firedAt: click.at };
+          }
+          if (detector.selector && click.selectors.includes(detector.selector)) {
+            return { detail: `Clicked ${detector.selector}`, firedAt: click.at };
+          }
+        }
+        return null;
+      }
+
+      case 'url': {
+        const pattern = safeRegExp(detector.pattern, detector.flags);
+        if (!pattern) return null;
+        const current = this.page.url();
+        const visit = this.visits.find(v => v.at >= since && pattern.test(v.url))
+          || (pattern.test(current) ? { at: Date.now(), url: current } : undefined);
+        return visit ? { detail: `Reached ${visit.url}`, firedAt: visit.at } : null;
+      }
+
+      case 'network': {
+        const pattern = safeRegExp(detector.urlPattern);
+        if (!pattern) return null;
+        const response = this.responses.find(r =>
+          r.at >= since &&
+          r.status < 400 &&
+          (!detector.method || r.method.toUpperCase() === detector.method.toUpperCase()) &&
+          pattern.test(r.url)
+        );
+        return response
+          ? { detail: `${response.method} ${response.url} → ${response.status}`, firedAt: response.at }
+          : null;
+      }
+
+      case 'dom': {
+        const visible = await this.page.evaluate(({ selector, text }) => {
+          try {
+            return Array.from(document.querySelectorAll(selector)).some(el => {
+              const rect = el.getBoundingClientRect();
+              return rect.width > 0 && rect.height > 0 &&
+                (!text || (el.textContent || '').toLowerCase().includes(text.toLowerCase()));
+            });
+          } catch {
+            return false;
+          }
+        }, { selector: detector.selector, text: detector.text }).catch(() => false);
+        return visible
+          ? { detail: `Saw ${detector.selector}${detector.text ? ` with "${detector.text}"` : ''}`, firedAt: Date.now() }
+          : null;
+      }
+
+      case 'script': {
+        const result = await this.page.evaluate(detector.expression).catch(() => false);
+        return result ? { detail: `${detector.expression.slice(0, 60)} was true`, firedAt: Date.now() } : null;
+      }
+
+      case 'form-submitted': {
+        if (!submission || submission.timestamp < since) return null;
+        const pattern = detector.urlPattern ? safeRegExp(detector.urlPattern) : null;
+        if (detector.urlPattern && !pattern?.test(submission.url)) return null;
+        return {
+          detail: submission.via === 'navigation'
+            ? `Submitted form: navigated to ${submission.url}`
+            : `Submitted form: ${submission.url} returned ${submission.status}`,
+          firedAt: submission.timestamp,
+        };
+      }
+    }
+  }
+}
+
+function safeRegExp(pattern: string, flags?: string): RegExp | null {
+  try {
+    return new RegExp(pattern, flags);
+  } catch {
+    return null;
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LLMError } from '../llm';
+import { backoffDelay, classifyFailure } from './failures';
+
+describe('classifyFailure', () => {
+  it('retries rate limits but not bad requests', () => {
+    const rateLimited = classifyFailure(new LLMError('Too many requests', 429), 'decision');
+    assert.equal(rateLimited.kind, 'infrastructure');
+    assert.equal(rateLimited.retryable, true);
+
+    const badRequest = classifyFailure(new LLMError('Invalid request', 400), 'decision');
+    assert.equal(badRequest.kind, 'infrastructure');
+    assert.equal(badRequest.retryable, false);
+  });
+
+  it('treats connection errors as retryable infrastructure failures', () => {
+    const failure = classifyFailure(new Error('Target page, context or browser has been closed'), 'browsing');
+    assert.deepEqual([failure.kind, failure.retryable], ['infrastructure', true]);
+  });
+
+  it('retries navigation timeouts but not other page errors', () => {
+    assert.equal(classifyFailure(new Error('Timeout 30000ms exceeded'), 'navigation').retryable, true);
+    assert.equal(classifyFailure(new Error('net::ERR_NAME_NOT_RESOLVED'), 'navigation').retryable, false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('stays within the doubling ceiling', () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      const delay = backoffDelay(attempt, 1000, 8000);
+      assert.ok(delay >= 0 && delay <= Math.min(8000, 1000 * 2 ** (attempt - 1)));
+    }
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Swarm Session Failures
+ * 
+ * Classifies why a session failed so the runner can retry transient
+ * problems and keep infrastructure noise out of the variant comparison.
+ * A broken page is a real finding about a variant; a dropped browser
+ * connection is not.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { LLMError } from '../llm';
+import type { FailureKind, SessionFailure, SessionPhase } from './types';
+
+/**
+ * Error carrying its failure classification
+ */
+export class SessionError extends Error {
+  readonly kind: FailureKind;
+  readonly retryable: boolean;
+
+  constructor(kind: FailureKind, message: string, retryable = false) {
+    super(message);
+    this.name = 'SessionError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+// Browser or CDP connection problems, whatever the phase
+const CONNECTION_PATTERN = /target (page, context or browser )?(has been )?closed|browser has been closed|websocket|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|fetch failed|protocol error/i;
+
+// Navigation errors worth another attempt
+const TRANSIENT_NAVIGATION_PATTERN = /timeout|ERR_CONNECTION_RESET|ERR_TIMED_OUT|ERR_NETWORK_CHANGED|ERR_EMPTY_RESPONSE|ERR_HTTP2/i;
+
+/**
+ * Classify an error thrown during a session
+ */
+export function classifyFailure(error: unknown, phase: SessionPhase): SessionFailure {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof SessionError) {
+    return { kind: error.kind, message, retryable: error.retryable, phase };
+  }
+
+  // Model API: rate limits, overload and outages are transient; auth and bad requests are not
+  if (error instanceof Anthropic.APIError || error instanceof LLMError) {
+    const status = error.status;
+    const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+    return { kind: 'infrastructure', message, retryable, phase };
+  }
+
+  if (phase === 'setup' || CONNECTION_PATTERN.test(message)) {
+    return { kind: 'infrastructure', message, retryable: true, phase };
+  }
+
+  if (error instanceof SyntaxError) {
+    return { kind: 'agent-parse', message, retryable: true, phase };
+  }
+
+  if (phase === 'navigation') {
+    return { kind: 'page', message, retryable: TRANSIENT_NAVIGATION_PATTERN.test(message), phase };
+  }
+
+  return { kind: 'page', message, retryable: false, phase };
+}
+
+/**
+ * Exponential backoff with full jitter, in ms
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs = 30000): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateIdentity } from '../persona/identity';
+import { getPresetPersona } from '../persona/presets';
+import { createFormProgress, fieldValue, noteFormErrors, recordFieldEntry } from './forms';
+import type { FormField, PageSnapshot } from './types';
+
+const identity = generateIdentity(getPresetPersona('impatient-mobile'));
+const field = (overrides: Partial<FormField>): FormField => ({
+  selector: '[data-swarm-field="0-0"]',
+  label: '',
+  name: '',
+  type: 'text',
+  required: false,
+  filled: false,
+  inView: true,
+  ...overrides,
+});
+
+describe('fieldValue', () => {
+  it('matches identity details from the field hints', () => {
+    assert.equal(fieldValue(identity, field({ type: 'email', label: 'Work email' })), identity.email);
+    assert.equal(fieldValue(identity, field({ label: 'Company size' })), identity.companySize);
+    assert.equal(fieldValue(identity, field({ label: 'Company' })), identity.company);
+    assert.equal(fieldValue(identity, field({ type: 'checkbox', label: 'I agree' })), 'yes');
+  });
+
+  it('picks the closest select option', () => {
+    const options = ['Select a country', 'Canada', identity.country, 'Japan'];
+    assert.equal(fieldValue(identity, field({ type: 'select', label: 'Country', options })), identity.country);
+  });
+});
+
+describe('form progress', () => {
+  it('keeps same-label fields in different forms apart', () => {
+    const progress = createFormProgress();
+    recordFieldEntry(progress, '[data-swarm-field="0-0"]', 'Email', 0, 100);
+    recordFieldEntry(progress, '[data-swarm-field="1-0"]', 'Email', 0, 100);
+    recordFieldEntry(progress, '[data-swarm-field="1-0"]', 'Email', 0, 50);
+
+    assert.equal(progress.fields.size, 2);
+    assert.equal(progress.fields.get('[data-swarm-field="0-0"]')!.corrections, 0);
+    assert.equal(progress.fields.get('[data-swarm-field="1-0"]')!.corrections, 1);
+  });
+
+  it('counts each distinct validation error once', () => {
+    const progress = createFormProgress();
+    recordFieldEntry(progress, '[data-swarm-field="0-0"]', 'Email', 0, 100);
+    const snapshot = {
+      forms: [{ action: '', selector: 'form', fields: [field({ label: 'Email', filled: true, error: 'Invalid email' })] }],
+    } as unknown as PageSnapshot;
+
+    noteFormErrors(progress, snapshot);
+    noteFormErrors(progress, snapshot);
+    const entry = progress.fields.get('[data-swarm-field="0-0"]')!;
+    assert.equal(entry.errors, 1);
+    assert.equal(entry.completed, false);
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Swarm Forms
+ *
+ * What a persona types into form fields, when they give up on a form, and
+ * whether a form really went through. A submission only counts once the
+ * form fires a submit event and then the page navigates or the server
+ * accepts a non-GET request to the form's action, so a click on a
+ * "Submit" button that fails validation is not a conversion.
+ */
+
+import type { Page } from 'playwright-core';
+import type { Persona, SyntheticIdentity } from '../persona';
+import { stripHash } from '../utils';
+import type {
+  AgentSession,
+  FieldFunnelStep,
+  FieldInteraction,
+  FormField,
+  FormFunnel,
+  FormMetrics,
+  PageSnapshot,
+} from './types';
+
+/**
+ * Which identity detail a field asks for, matched against its autocomplete
+ * hint, type, name and label, most specific first
+ */
+const FIELD_PATTERNS: Array<{ pattern: RegExp; value: (identity: SyntheticIdentity) => string }> = [
+  { pattern: /e-?mail/, value: id => id.email },
+  { pattern: /pass(word)?|pwd/, value: id => id.password },
+  { pattern: /user.?name|login/, value: id => id.email },
+  { pattern: /tel|phone|mobile/, value: id => id.phone },
+  { pattern: /given|first.?name|fname/, value: id => id.firstName },
+  { pattern: /family|last.?name|surname|lname/, value: id => id.lastName },
+  { pattern: /(company|organi[sz]ation|team).?size|employees|headcount/, value: id => id.companySize },
+  { pattern: /url|website|domain/, value: id => id.website },
+  { pattern: /job|title|role|position/, value: id => id.jobTitle },
+  { pattern: /organi[sz]ation|company|business|employer/, value: id => id.company },
+  { pattern: /postal|zip/, value: id => id.postalCode },
+  { pattern: /country/, value: id => id.country },
+  { pattern: /city|town|locality/, value: id => id.city },
+  { pattern: /address|street/, value: id => id.address },
+  { pattern: /name/, value: id => id.fullName },
+  { pattern: /message|comment|question|details|help|note/, value: id => id.message },
+];
+
+/**
+ * What the persona types into a field: the matching identity detail, the
+ * closest option for selects, and "yes" for checkboxes
+ */
+export function fieldValue(identity: SyntheticIdentity, field: FormField): string {
+  if (field.type === 'checkbox' || field.type === 'radio') return 'yes';
+
+  const hints = [field.autocomplete, field.type, field.name, field.label]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  const match = FIELD_PATTERNS.find(p => p.pattern.test(hints));
+  const value = match
+    ? match.value(identity)
+    : field.type === 'textarea' ? identity.message : field.type === 'number' ? '1' : identity.fullName;
+
+  if (field.type === 'select' && field.options?.length) {
+    return closestOption(field.options, value);
+  }
+  return value;
+}
+
+/**
+ * Select option that best matches a value: one containing it (or the first
+ * number of a size band), else the first real choice
+ */
+function closestOption(options: string[], value: string): string {
+  const choices = options.filter(o => o.trim() && !/^(select|choose|please|--)/i.test(o.trim()));
+  const wanted = value.toLowerCase();
+  const leadingNumber = value.match(/\d+/)?.[0];
+  return choices.find(o => o.toLowerCase().includes(wanted))
+    || (leadingNumber ? choices.find(o => o.match(/\d+/)?.[0] === leadingNumber) : undefined)
+    || choices[0]
+    || value;
+}
+
+/**
+ * Form field a decision target refers to: its selector, label or name
+ */
+export function findFormField(snapshot: PageSnapshot, target: string): FormField | undefined {
+  const wanted = target.trim().toLowerCase();
+  const fields = snapshot.forms.flatMap(f => f.fields);
+  return fields.find(f => f.selector === target)
+    || fields.find(f => f.label.toLowerCase() === wanted || f.name.toLowerCase() === wanted)
+    || fields.find(f => wanted.length > 2 && f.label.toLowerCase().includes(wanted));
+}
+
+/**
+ * How far a persona has got with the forms on a page
+ */
+export interface FormProgress {
+  /** Fields typed into so far, by selector (so same-label fields in different forms stay apart) */
+  fields: Map<string, FieldInteraction>;
+
+  /** Distinct validation errors shown so far ("<selector>: <message>") */
+  errorsSeen: Set<string>;
+
+  /** Label of the last field typed into */
+  lastField?: string;
+
+  /** When the first field was typed into */
+  startedAt?: number;
+}
+
+/**
+ * Empty progress for a new session
+ */
+export function createFormProgress(): FormProgress {
+  return { fields: new Map(), errorsSeen: new Set() };
+}
+
+/**
+ * Record a value entered into the field at `selector`; entering one again
+ * is a correction
+ */
+export function recordFieldEntry(
+  progress: FormProgress,
+  selector: string,
+  label: string,
+  order: number,
+  timeMs: number
+): void {
+  const existing = progress.fields.get(selector);
+  if (existing) {
+    existing.corrections++;
+    existing.timeMs += timeMs;
+  } else {
+    progress.fields.set(selector, { field: label, order, timeMs, errors: 0, corrections: 0, completed: false });
+  }
+  progress.lastField = label;
+  progress.startedAt ??= Date.now() - timeMs;
+}
+
+/**
+ * Record the validation errors a snapshot shows, and which touched fields
+ * are now filled in without one
+ */
+export function noteFormErrors(progress: FormProgress, snapshot: PageSnapshot): void {
+  for (const field of snapshot.forms.flatMap(f => f.fields)) {
+    const touched = progress.fields.get(field.selector);
+    if (touched) touched.completed = field.filled && !field.error;
+    if (!field.error) continue;
+
+    const key = `${field.selector}: ${field.error}`;
+    if (progress.errorsSeen.has(key)) continue;
+    progress.errorsSeen.add(key);
+    if (touched) touched.errors++;
+  }
+}
+
+/**
+ * Form metrics for a finished session, if any field was touched
+ */
+export function formMetrics(progress: FormProgress, submitted: boolean): FormMetrics | undefined {
+  if (progress.fields.size === 0) return undefined;
+  return {
+    fields: [...progress.fields.values()].sort((a, b) => a.order - b.order),
+    submitted,
+    abandonedAt: submitted ? undefined : progress.lastField,
+    durationMs: Date.now() - (progress.startedAt ?? Date.now()),
+  };
+}
+
+/**
+ * Field-by-field funnel over the sessions that started a form. Fields are
+ * ordered by where they sit in the form.
+ */
+export function summarizeFormFunnel(sessions: AgentSession[]): FormFunnel | undefined {
+  const started = sessions.filter(s => s.metrics.form);
+  if (started.length === 0) return undefined;
+
+  const steps = new Map<string, FieldFunnelStep & { orderSum: number; timeSum: number }>();
+  for (const session of started) {
+    const form = session.metrics.form!;
+    for (const field of form.fields) {
+      const step = steps.get(field.field) || {
+        field: field.field,
+        reached: 0,
+        completed: 0,
+        avgTimeMs: 0,
+        errors: 0,
+        corrections: 0,
+        abandonedHere: 0,
+        orderSum: 0,
+        timeSum: 0,
+      };
+      step.reached++;
+      if (field.completed) step.completed++;
+      step.errors += field.errors;
+      step.corrections += field.corrections;
+      step.orderSum += field.order;
+      step.timeSum += field.timeMs;
+      if (form.abandonedAt === field.field) step.abandonedHere++;
+      steps.set(field.field, step);
+    }
+  }
+
+  return {
+    started: started.length,
+    submitted: started.filter(s => s.metrics.form!.submitted).length,
+    avgDurationMs: started.reduce((sum, s) => sum + s.metrics.form!.durationMs, 0) / started.length,
+    fields: [...steps.values()]
+      .sort((a, b) => a.orderSum / a.reached - b.orderSum / b.reached)
+      .map(step => ({
+        field: step.field,
+        reached: step.reached,
+        completed: step.completed,
+        avgTimeMs: step.timeSum / step.reached,
+        errors: step.errors,
+        corrections: step.corrections,
+        abandonedHere: step.abandonedHere,
+      })),
+  };
+}
+
+/**
+ * Why the persona gives up on a half-filled form, if they do. Patient,
+ * motivated personas fill more fields before a form feels too long;
+ * tolerant ones shrug off more validation errors.
+ */
+export function shouldAbandonForm(
+  persona: Persona,
+  snapshot: PageSnapshot,
+  progress: FormProgress
+): string | undefined {
+  if (progress.fields.size === 0) return undefined;
+
+  const remaining = snapshot.forms
+    .flatMap(f => f.fields)
+    .filter(f => f.required && (!f.filled || f.error)).length;
+  if (remaining === 0) return undefined;
+
+  const errorBudget = Math.max(1, Math.round(persona.behavior.frustrationTolerance / 3));
+  if (progress.errorsSeen.size > errorBudget) {
+    return `Abandoned form after ${progress.errorsSeen.size} validation errors`;
+  }
+
+  const fieldBudget = Math.round(2 + persona.behavior.patience * 0.8 + persona.intent.urgency * 0.4);
+  if (progress.fields.size >= fieldBudget) {
+    return `Abandoned form after ${progress.fields.size} fields with ${remaining} still required`;
+  }
+  return undefined;
+}
+
+/**
+ * Evidence that a form went through
+ */
+export interface FormSubmission {
+  /** The page navigated away, or the server accepted a request */
+  via: 'navigation' | 'network';
+
+  /** Page or request URL */
+  url: string;
+
+  /** HTTP status (network submissions only) */
+  status?: number;
+
+  /** When it was detected */
+  timestamp: number;
+}
+
+// How long after a submit a navigation or request still counts as its result
+const SUBMIT_WINDOW_MS = 8000;
+
+/**
+ * Where a submitted form sends its data
+ */
+interface FormTarget {
+  /** Resolved action URL (the page itself when the form has none) */
+  action: string;
+
+  /** Whether the form names its action, rather than leaving it to script */
+  explicit: boolean;
+}
+
+/**
+ * Watches a page for the outcome of form submissions. It arms when the
+ * page fires a submit event (validation that blocks the submit stops the
+ * event), then records the first navigation or accepted non-GET request
+ * to the form's action that follows within a few seconds. Forms without
+ * an action are usually sent by script, so any same-origin request counts
+ * for them; third-party analytics and beacons never do.
+ */
+export class SubmissionWatcher {
+  private armedAt: number | null = null;
+  private urlAtSubmit = '';
+  private target: FormTarget | null = null;
+  private _submission: FormSubmission | null = null;
+
+  constructor(private page: Page) {}
+
+  /**
+   * Start listening. Call before the first navigation so the submit hook
+   * is in every document.
+   */
+  async attach(): Promise<void> {
+    await this.page.exposeBinding('__swarmFormSubmitted', (_source, target: FormTarget) => this.arm(target));
+    await this.page.addInitScript(() => {
+      document.addEventListener('submit', event => {
+        const form = event.target as HTMLFormElement;
+        (window as unknown as { __swarmFormSubmitted: (target: FormTarget) => void }).__swarmFormSubmitted({
+          action: form.action || location.href,
+          explicit: form.hasAttribute('action'),
+        });
+      }, true);
+    });
+
+    this.page.on('response', response => {
+      const request = response.request();
+      if (
+        this.isArmed() &&
+        request.method() !== 'GET' &&
+        ['document', 'xhr', 'fetch'].includes(request.resourceType()) &&
+        response.status() < 400 &&
+        this.isFormRequest(request.url())
+      ) {
+        this._submission = { via: 'network', url: request.url(), status: response.status(), timestamp: Date.now() };
+      }
+    });
+
+    this.page.on('framenavigated', frame => {
+      if (
+        this.isArmed() &&
+        frame === this.page.mainFrame() &&
+        stripHash(frame.url()) !== stripHash(this.urlAtSubmit)
+      ) {
+        this._submission = { via: 'navigation', url: frame.url(), timestamp: Date.now() };
+      }
+    });
+  }
+
+  /**
+   * A form fired its submit event
+   */
+  private arm(target: FormTarget): void {
+    this.armedAt = Date.now();
+    this.urlAtSubmit = this.page.url();
+    this.target = target;
+  }
+
+  /**
+   * Forget the last submission so the next one can be detected (for
+   * journeys with more than one form)
+   */
+  reset(): void {
+    this._submission = null;
+    this.armedAt = null;
+    this.target = null;
+  }
+
+  /**
+   * The confirmed submission, if any
+   */
+  get submission(): FormSubmission | null {
+    return this._submission;
+  }
+
+  private isArmed(): boolean {
+    return !this._submission && this.armedAt !== null && Date.now() - this.armedAt < SUBMIT_WINDOW_MS;
+  }
+
+  private isFormRequest(url: string): boolean {
+    if (!this.target) return false;
+    if (this.target.explicit) return stripHash(url) === stripHash(this.target.action);
+    try {
+      return new URL(url).origin === new URL(this.target.action).origin;
+    } catch {
+      return false;
+    }
+  }
+}
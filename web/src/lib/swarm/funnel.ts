@@ -0,0 +1,53 @@
+/**
+ * Swarm Funnels
+ *
+ * Multi-page conversion journeys. A single-target goal is a one-step
+ * funnel, so the agent tracks every goal the same way: it works through
+ * the steps in order and converts on reaching the last one. Whether a
+ * step is reached is up to its conversion detectors (see detectors.ts).
+ */
+
+import type {
+  AgentSession,
+  ConversionGoal,
+  ConversionStep,
+  FunnelStepResult,
+} from './types';
+
+/**
+ * The steps of a goal, in order (a custom goal without detectors has none
+ * and never converts)
+ */
+export function goalSteps(goal: ConversionGoal): ConversionStep[] {
+  if (goal.type === 'funnel') return goal.steps ?? [];
+  if (goal.type === 'custom' && !goal.detectors?.length) return [];
+  return [{ name: goal.description, type: goal.type, target: goal.target, detectors: goal.detectors }];
+}
+
+/**
+ * Step to work towards after `reached` steps, if any are left
+ */
+export function activeStep(goal: ConversionGoal, reached: number): ConversionStep | undefined {
+  return goalSteps(goal)[reached];
+}
+
+/**
+ * Sessions reaching each step of a funnel goal, with the drop-off from
+ * the step before (the first step drops off from everyone who landed)
+ */
+export function summarizeFunnel(goal: ConversionGoal, sessions: AgentSession[]): FunnelStepResult[] | undefined {
+  if (goal.type !== 'funnel' || sessions.length === 0) return undefined;
+
+  let previous = sessions.length;
+  return goalSteps(goal).map((step, i) => {
+    const reached = sessions.filter(s => (s.metrics.funnelSteps?.length ?? 0) > i).length;
+    const result = {
+      step: step.name,
+      reached,
+      rate: (reached / sessions.length) * 100,
+      dropOff: previous > 0 ? ((previous - reached) / previous) * 100 : 0,
+    };
+    previous = reached;
+    return result;
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * Swarm Heatmaps
+ *
+ * Aggregates where sessions clicked, hovered and scrolled on a variant's
+ * landing page. Pages reflow between devices, so clicks are only mapped
+ * together with others from the same device.
+ */
+
+import type {
+  AgentSession,
+  HeatmapElement,
+  ScrollReachPoint,
+  VariantHeatmap,
+} from './types';
+import { stripHash } from '../utils';
+
+// Depths the scroll-reach curve is reported at
+const REACH_STEP_PERCENT = 10;
+
+// Elements listed per heatmap
+const MAX_ELEMENTS = 10;
+
+/**
+ * Click and hover maps of the landing page, one per device that has any
+ */
+export function summarizeHeatmaps(sessions: AgentSession[]): VariantHeatmap[] | undefined {
+  const byDevice = new Map<VariantHeatmap['device'], AgentSession[]>();
+  for (const session of sessions) {
+    const device = session.persona.demographics.device;
+    byDevice.set(device, [...(byDevice.get(device) ?? []), session]);
+  }
+
+  const heatmaps: VariantHeatmap[] = [];
+  for (const [device, deviceSessions] of byDevice) {
+    const interactions = deviceSessions.flatMap(s => {
+      const landing = landingPage(s);
+      return (s.metrics.interactions ?? []).filter(i => stripHash(i.url) === landing);
+    });
+    if (interactions.length === 0) continue;
+
+    const elements = new Map<string, HeatmapElement>();
+    for (const interaction of interactions) {
+      const element = elements.get(interaction.target)
+        ?? { target: interaction.target, box: interaction.box, clicks: 0, hovers: 0 };
+      if (interaction.type === 'click') element.clicks++;
+      else element.hovers++;
+      elements.set(interaction.target, element);
+    }
+
+    // Without a screenshot, the map is sized to fit what was interacted with
+    const capture = deviceSessions.find(s => s.landingPage)?.landingPage;
+    heatmaps.push({
+      device,
+      sessions: deviceSessions.length,
+      width: capture?.width ?? Math.max(...interactions.map(i => i.box.x + i.box.width)),
+      height: capture?.height ?? Math.max(...interactions.map(i => i.box.y + i.box.height)),
+      screenshot: capture?.screenshot,
+      points: interactions.map(i => ({ type: i.type, x: i.x, y: i.y })),
+      elements: [...elements.values()]
+        .sort((a, b) => b.clicks - a.clicks || b.hovers - a.hovers)
+        .slice(0, MAX_ELEMENTS),
+    });
+  }
+
+  return heatmaps.length > 0 ? heatmaps : undefined;
+}
+
+/**
+ * Share of sessions that scrolled the landing page at least each depth,
+ * from the top of the page to the bottom
+ */
+export function summarizeScrollReach(sessions: AgentSession[]): ScrollReachPoint[] | undefined {
+  const deepest = sessions.flatMap(s => {
+    const landing = landingPage(s);
+    const samples = (s.metrics.scrollTimeline ?? []).filter(sample => stripHash(sample.url) === landing);
+    return samples.length > 0 ? [Math.max(...samples.map(sample => sample.depthPercent))] : [];
+  });
+  if (deepest.length === 0) return undefined;
+
+  const points: ScrollReachPoint[] = [];
+  for (let depth = 0; depth <= 100; depth += REACH_STEP_PERCENT) {
+    points.push({
+      depthPercent: depth,
+      reached: (deepest.filter(d => d >= depth).length / deepest.length) * 100,
+    });
+  }
+  return points;
+}
+
+function landingPage(session: AgentSession): string {
+  return stripHash(session.metrics.pages?.[0] ?? session.url);
+}
@@ -6,4 +6,45 @@
 
 export * from './types';
 export { BrowserAgent } from './browser-agent';
-export { SwarmRunner } from './swarm-runner';
+export { SwarmRunner, isStaleStatus } from './swarm-runner';
+export { RunControl, type RunControlState } from './control';
+export {
+  BrowserbaseProvider,
+  LocalChromiumProvider,
+  createBrowserProvider,
+  getDefaultBrowserProvider,
+  type BrowserProvider,
+  type BrowserProviderConfig,
+  type BrowserSession,
+} from './browser-provider';
+export {
+  LLMDecisionProvider,
+  ReplayDecisionProvider,
+  RuleBasedDecisionProvider,
+  decisionProviderFor,
+  type DecisionContext,
+  type DecisionProvider,
+  type ImpressionContext,
+  type PersonaImpression,
+} from './decision';
+export { TokenBucket, createRateLimiters, type RateLimit, type RateLimitSettings, type RateLimiters } from './rate-limit';
+export {
+  SubmissionWatcher,
+  fieldValue,
+  summarizeFormFunnel,
+  type FormProgress,
+  type FormSubmission,
+} from './forms';
+export { goalSteps, activeStep, summarizeFunnel } from './funnel';
+export { ConversionMonitor, stepDetectors, type ClickedElement } from './detectors';
+export { SessionRecorder } from './recording';
+export { modelUsage } from './usage';
+export {
+  ExperimentRequestError,
+  parseExperimentRequest,
+  type ExperimentRequest,
+  type ParsedExperimentRequest,
+} from './request';
+export { HumanInput, type Aim } from './input';
+export { summarizeHeatmaps, summarizeScrollReach } from './heatmap';
+export { planReading, readingSpeed, summarizeAttention, visibleSections, type SectionReading, type VisibleSection } from './reading';
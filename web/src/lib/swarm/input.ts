@@ -0,0 +1,264 @@
+/**
+ * Swarm Human Input
+ *
+ * Drives the page the way a person would rather than the way a test
+ * script does. Desktop personas move the mouse along curved, eased paths
+ * and scroll in wheel notches; phone and tablet personas tap and swipe.
+ * Distances and speeds come from the persona: scroll speed sets how far
+ * and how fast they scroll, and tech-savviness and age set how quickly
+ * they point and type and how often they mistype.
+ */
+
+import type { CDPSession, ElementHandle, Page } from 'playwright-core';
+import type { Persona } from '../persona';
+import type { ElementBox } from './types';
+import { sampleNormal } from '../utils';
+
+// Pixels scrolled per mouse-wheel notch
+const WHEEL_NOTCH = 100;
+
+// Keys next to each letter on a QWERTY keyboard, for typos
+const NEIGHBOR_KEYS: Record<string, string> = {
+  a: 'qwsz', b: 'vghn', c: 'xdfv', d: 'serfcx', e: 'wsdr', f: 'drtgvc', g: 'ftyhbv',
+  h: 'gyujnb', i: 'ujko', j: 'huikmn', k: 'jiolm', l: 'kop', m: 'njk', n: 'bhjm',
+  o: 'iklp', p: 'ol', q: 'wa', r: 'edft', s: 'awedxz', t: 'rfgy', u: 'yhji',
+  v: 'cfgb', w: 'qase', x: 'zsdc', y: 'tghu', z: 'asx',
+};
+
+/**
+ * Where the persona is about to point: a spot inside an element, in
+ * viewport and document pixels
+ */
+export interface Aim {
+  /** Viewport coordinates of the pointer */
+  x: number;
+  y: number;
+
+  /** Document coordinates of the pointer */
+  pageX: number;
+  pageY: number;
+
+  /** The element's bounding box in document pixels */
+  box: ElementBox;
+}
+
+/**
+ * Human-paced pointer, touch, scroll and keyboard input for one session
+ */
+export class HumanInput {
+  private pointer: { x: number; y: number };
+  private cdp: CDPSession | null = null;
+  private readonly touch: boolean;
+  private readonly motor: number;
+
+  constructor(
+    private page: Page,
+    private persona: Persona,
+    private viewport: { width: number; height: number }
+  ) {
+    this.touch = persona.demographics.device !== 'desktop';
+    this.pointer = { x: viewport.width * (0.3 + Math.random() * 0.4), y: viewport.height * (0.3 + Math.random() * 0.4) };
+
+    // Less practised and older users point, scroll and type more slowly
+    const tech = { low: 1.3, medium: 1, high: 0.85 }[persona.demographics.techSavviness];
+    const age = persona.demographics.ageRange === '65+' ? 1.3 : persona.demographics.ageRange === '55-64' ? 1.15 : 1;
+    this.motor = tech * age;
+  }
+
+  /**
+   * Put the pointer on the page, and turn on touch input for phone and
+   * tablet personas. Touch goes through CDP so it works with any Chromium
+   * provider, whatever context it created.
+   */
+  async attach(): Promise<void> {
+    if (!this.touch) {
+      // The wheel scrolls whatever is under the pointer, so start it over the page
+      await this.page.mouse.move(this.pointer.x, this.pointer.y);
+      return;
+    }
+    try {
+      this.cdp = await this.page.context().newCDPSession(this.page);
+      await this.cdp.send('Emulation.setTouchEmulationEnabled', { enabled: true, maxTouchPoints: 5 });
+    } catch (error) {
+      console.warn('[HumanInput] Touch emulation unavailable, using the mouse:', error instanceof Error ? error.message : 'Unknown error');
+      this.cdp = null;
+    }
+  }
+
+  /**
+   * Bring an element on screen (scrolling to it as the persona would) and
+   * pick the spot they'll hit: near its middle, rarely dead center
+   */
+  async aim(element: ElementHandle): Promise<Aim | null> {
+    let box = await element.boundingBox();
+    if (!box || box.width === 0 || box.height === 0) return null;
+
+    if (box.y < 0 || box.y + box.height > this.viewport.height) {
+      await this.scrollBy(box.y - this.viewport.height / 3);
+      box = await element.boundingBox();
+      if (box && (box.y < 0 || box.y + box.height > this.viewport.height)) {
+        await element.scrollIntoViewIfNeeded({ timeout: 2000 }).catch(() => {});
+        box = await element.boundingBox();
+      }
+      if (!box) return null;
+    }
+
+    const scroll = await this.page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+    const x = box.x + box.width * clamp(0.5 + sampleNormal() * 0.15, 0.15, 0.85);
+    const y = box.y + box.height * clamp(0.5 + sampleNormal() * 0.15, 0.2, 0.8);
+    return {
+      x,
+      y,
+      pageX: x + scroll.x,
+      pageY: y + scroll.y,
+      box: { x: box.x + scroll.x, y: box.y + scroll.y, width: box.width, height: box.height },
+    };
+  }
+
+  /**
+   * Click (or tap) at an aim. The persona sometimes lingers over the target
+   * first; skeptical personas more often. Returns whether they hesitated.
+   */
+  async click(aim: Aim): Promise<{ hesitated: boolean }> {
+    const hesitated = Math.random() < this.persona.behavior.skepticism / 25;
+    const dwell = hesitated ? 600 + Math.random() * 900 : 80 + Math.random() * 170;
+
+    if (this.cdp) {
+      await this.page.waitForTimeout(dwell * this.motor);
+      await this.cdp.send('Input.dispatchTouchEvent', { type: 'touchStart', touchPoints: [{ x: aim.x, y: aim.y }] });
+      await this.page.waitForTimeout(60 + Math.random() * 60);
+      await this.cdp.send('Input.dispatchTouchEvent', { type: 'touchEnd', touchPoints: [] });
+    } else {
+      await this.moveTo(aim.x, aim.y, aim.box.width);
+      await this.page.waitForTimeout(dwell * this.motor);
+      await this.page.mouse.down();
+      await this.page.waitForTimeout(50 + Math.random() * 70);
+      await this.page.mouse.up();
+    }
+    return { hesitated };
+  }
+
+  /**
+   * Rest the pointer on an aim. Touch screens have no hover, so it is a
+   * no-op there; returns whether anything was hovered.
+   */
+  async hover(aim: Aim): Promise<boolean> {
+    if (this.cdp) return false;
+    await this.moveTo(aim.x, aim.y, aim.box.width);
+    return true;
+  }
+
+  /**
+   * Scroll down by the persona's usual amount: a fraction of a screen for
+   * slow scrollers, more than a screen for speed scrollers, a little
+   * further per swipe on touch screens. Returns the pixels actually moved.
+   */
+  async scroll(): Promise<number> {
+    const screens = (0.4 + this.persona.behavior.scrollSpeed * 0.07) * (this.touch ? 1.2 : 1);
+    const distance = this.viewport.height * screens * (0.85 + Math.random() * 0.3);
+    return this.scrollBy(distance);
+  }
+
+  /**
+   * Click into a field and type text into it key by key. Typing speed
+   * depends on the persona and device; mistyped keys are noticed and
+   * fixed with backspace, so the final value is always right.
+   */
+  async type(element: ElementHandle, text: string): Promise<void> {
+    const aim = await this.aim(element);
+    if (aim) await this.click(aim);
+    else await element.focus();
+    await element.fill('');
+
+    const tech = this.persona.demographics.techSavviness;
+    const charsPerMinute = { low: 130, medium: 200, high: 280 }[tech] / this.motor * (this.touch ? 0.7 : 1);
+    const typoRate = { low: 0.05, medium: 0.03, high: 0.015 }[tech] + (this.touch ? 0.02 : 0);
+    const keyGap = () => this.page.waitForTimeout((60000 / charsPerMinute) * (0.5 + Math.random()));
+
+    for (const char of text) {
+      const neighbors = NEIGHBOR_KEYS[char.toLowerCase()];
+      if (neighbors && Math.random() < typoRate) {
+        await this.page.keyboard.type(neighbors[Math.floor(Math.random() * neighbors.length)]);
+        // The slip is noticed a moment later
+        await this.page.waitForTimeout(200 + Math.random() * 300);
+        await this.page.keyboard.press('Backspace');
+        await keyGap();
+      }
+      await this.page.keyboard.type(char);
+      await keyGap();
+    }
+  }
+
+  /**
+   * Scroll by a distance, easing in and out: wheel notches on desktop, a
+   * swipe gesture on touch screens. Returns the pixels actually moved.
+   */
+  private async scrollBy(distance: number): Promise<number> {
+    const before = await this.page.evaluate(() => window.scrollY);
+    const speed = (this.touch ? 800 : 400) + this.persona.behavior.scrollSpeed * (this.touch ? 200 : 160);
+
+    let swiped = false;
+    if (this.cdp) {
+      swiped = await this.cdp.send('Input.synthesizeScrollGesture', {
+        x: this.pointer.x,
+        y: this.viewport.height * 0.6,
+        yDistance: -distance,
+        speed: Math.round(speed),
+        gestureSourceType: 'touch',
+      }).then(() => true, () => false);
+    }
+
+    if (!swiped) {
+      const notches = Math.max(1, Math.round(Math.abs(distance) / WHEEL_NOTCH));
+      const step = distance / notches;
+      for (let i = 0; i < notches; i++) {
+        await this.page.mouse.wheel(0, step);
+        // Notches come fastest mid-scroll and slow at either end
+        const ease = 1 + Math.cos(((i + 0.5) / notches) * 2 * Math.PI) * 0.5;
+        await this.page.waitForTimeout((Math.abs(step) / speed) * 1000 * ease);
+      }
+    }
+
+    await this.page.waitForTimeout(150);
+    const after = await this.page.evaluate(() => window.scrollY);
+    return after - before;
+  }
+
+  /**
+   * Move the mouse along a curved path that speeds up and slows down, in
+   * a time that grows with distance and shrinks with target size (Fitts's law)
+   */
+  private async moveTo(x: number, y: number, targetWidth: number): Promise<void> {
+    const from = this.pointer;
+    const distance = Math.hypot(x - from.x, y - from.y);
+    if (distance < 2) return;
+
+    const duration = (200 + 150 * Math.log2(distance / Math.max(targetWidth, 1) + 1)) * this.motor;
+    const steps = Math.round(clamp(distance / 20, 8, 40));
+
+    // Control points pushed to one side of the straight line make the arc
+    const bend = (Math.random() - 0.5) * 0.4 * distance;
+    const normal = { x: -(y - from.y) / distance, y: (x - from.x) / distance };
+    const c1 = { x: from.x + (x - from.x) / 3 + normal.x * bend, y: from.y + (y - from.y) / 3 + normal.y * bend };
+    const c2 = { x: from.x + (x - from.x) * 2 / 3 + normal.x * bend, y: from.y + (y - from.y) * 2 / 3 + normal.y * bend };
+
+    for (let i = 1; i <= steps; i++) {
+      const t = easeInOut(i / steps);
+      const u = 1 - t;
+      await this.page.mouse.move(
+        u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * x,
+        u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * y
+      );
+      await this.page.waitForTimeout(duration / steps);
+    }
+    this.pointer = { x, y };
+  }
+}
+
+function easeInOut(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { estimateRun, planExperiment, powerForSampleSize, sampleSizePerGroup } from './planning';
+
+describe('sampleSizePerGroup', () => {
+  it('needs 3841 sessions per group to detect 10% → 12%', () => {
+    assert.equal(sampleSizePerGroup(0.1, 0.12, 0.05, 0.8), 3841);
+  });
+
+  it('reaches the requested power at that size', () => {
+    assert.ok(powerForSampleSize(0.1, 0.12, 3841, 0.05) >= 0.8);
+    assert.ok(powerForSampleSize(0.1, 0.12, 3800, 0.05) < 0.8);
+  });
+});
+
+describe('planExperiment', () => {
+  it('plans a 20% relative lift on a 10% baseline', () => {
+    const plan = planExperiment({ baselineConversionRate: 10, minDetectableEffect: 20 });
+    assert.equal(plan.sessionsPerVariant, 3841);
+    assert.equal(plan.totalSessions, 7682);
+  });
+
+  it('rejects out-of-range input', () => {
+    assert.throws(() => planExperiment({ baselineConversionRate: 0, minDetectableEffect: 20 }));
+    assert.throws(() => planExperiment({ baselineConversionRate: 10, minDetectableEffect: 20, alpha: 1 }));
+  });
+});
+
+describe('estimateRun', () => {
+  it('rejects negative or non-finite assumptions', () => {
+    assert.throws(() => estimateRun(10, { assumptions: { avgSessionDurationSec: -1 } }));
+    assert.throws(() => estimateRun(10, { assumptions: { inputCostPerMillion: NaN } }));
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Swarm Experiment Planning
+ *
+ * Sample-size and power calculation for conversion experiments, plus
+ * estimates of how long a swarm will take and what it will cost to run.
+ */
+
+import { DEFAULT_MODEL, pricingFor } from '../llm/usage';
+import { normalCdf, normalQuantile } from './statistics';
+
+/**
+ * Assumptions used to turn a session count into time and cost estimates
+ */
+export interface CostAssumptions {
+  /** Average wall-clock length of one agent session in seconds */
+  avgSessionDurationSec: number;
+
+  /** Average AI decisions per session (one LLM call each) */
+  avgDecisionsPerSession: number;
+
+  /** Input tokens per decision prompt */
+  inputTokensPerDecision: number;
+
+  /** Output tokens per decision */
+  outputTokensPerDecision: number;
+
+  /** Input + output tokens for the end-of-session impression call */
+  tokensPerImpression: number;
+
+  /** USD per million input tokens */
+  inputCostPerMillion: number;
+
+  /** USD per million output tokens */
+  outputCostPerMillion: number;
+
+  /** USD per browser-session minute */
+  browserCostPerMinute: number;
+}
+
+const defaultPricing = pricingFor({ provider: 'anthropic', model: DEFAULT_MODEL });
+
+/**
+ * Defaults based on the swarm BrowserAgent's prompts, a 60s session cap
+ * and the default model's list price
+ */
+export const DEFAULT_COST_ASSUMPTIONS: CostAssumptions = {
+  avgSessionDurationSec: 45,
+  avgDecisionsPerSession: 12,
+  inputTokensPerDecision: 700,
+  outputTokensPerDecision: 120,
+  tokensPerImpression: 400,
+  inputCostPerMillion: defaultPricing.inputPerMillion,
+  outputCostPerMillion: defaultPricing.outputPerMillion,
+  browserCostPerMinute: 0.002,
+};
+
+/**
+ * Input to the experiment planner
+ */
+export interface PlanRequest {
+  /** Expected control conversion rate (0-100) */
+  baselineConversionRate: number;
+
+  /** Smallest effect worth detecting */
+  minDetectableEffect: number;
+
+  /** Whether the effect is a relative lift in percent or absolute percentage points (default 'relative') */
+  effectType?: 'relative' | 'absolute';
+
+  /** Significance level (default 0.05) */
+  alpha?: number;
+
+  /** Desired power (default 0.8) */
+  power?: number;
+
+  /** Number of variants including the control (default 2) */
+  variantCount?: number;
+
+  /** Concurrent sessions the runner will use (default 2) */
+  maxConcurrent?: number;
+
+  /** Minimum gap between session starts in ms (default 0) */
+  delayBetweenSessions?: number;
+
+  /** Overrides for the time and cost assumptions */
+  assumptions?: Partial<CostAssumptions>;
+}
+
+/**
+ * Time and cost estimate for a given number of sessions
+ */
+export interface RunEstimate {
+  /** Estimated wall-clock duration in seconds */
+  estimatedDurationSec: number;
+
+  /** Estimated LLM token usage */
+  estimatedTokens: { input: number; output: number; total: number };
+
+  /** Estimated browser time in minutes */
+  estimatedBrowserMinutes: number;
+
+  /** Estimated cost in USD */
+  estimatedCost: { llm: number; browser: number; total: number };
+
+  /** Assumptions the estimates were based on */
+  assumptions: CostAssumptions;
+}
+
+/**
+ * Planner output
+ */
+export interface ExperimentPlan extends RunEstimate {
+  /** Sessions needed for each variant */
+  sessionsPerVariant: number;
+
+  /** Sessions across all variants */
+  totalSessions: number;
+
+  /** Expected variant conversion rate at the minimum detectable effect (0-100) */
+  targetConversionRate: number;
+
+  /** Per-comparison alpha after Bonferroni adjustment for multiple variants */
+  adjustedAlpha: number;
+
+  /** Power actually achieved with the rounded session count */
+  achievedPower: number;
+}
+
+/**
+ * Sessions per group for a two-sided two-proportion test
+ */
+export function sampleSizePerGroup(p1: number, p2: number, alpha: number, power: number): number {
+  const delta = Math.abs(p2 - p1);
+  if (delta === 0) return Infinity;
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const zBeta = normalQuantile(power);
+  const pBar = (p1 + p2) / 2;
+  const numerator = zAlpha * Math.sqrt(2 * pBar * (1 - pBar)) +
+    zBeta * Math.sqrt(p1 * (1 - p1) + p2 * (1 - p2));
+
+  return Math.ceil((numerator * numerator) / (delta * delta));
+}
+
+/**
+ * Power of a two-sided two-proportion test with `n` sessions per group
+ */
+export function powerForSampleSize(p1: number, p2: number, n: number, alpha: number): number {
+  const delta = Math.abs(p2 - p1);
+  if (n <= 0 || delta === 0) return alpha;
+
+  const zAlpha = normalQuantile(1 - alpha / 2);
+  const pBar = (p1 + p2) / 2;
+  const se0 = Math.sqrt(2 * pBar * (1 - pBar) / n);
+  const se1 = Math.sqrt((p1 * (1 - p1) + p2 * (1 - p2)) / n);
+
+  return normalCdf((delta - zAlpha * se0) / se1);
+}
+
+/**
+ * Estimate duration, tokens and cost for running `totalSessions` sessions.
+ * Throws if the runner settings can't run any sessions.
+ */
+export function estimateRun(
+  totalSessions: number,
+  options: {
+    maxConcurrent?: number;
+    delayBetweenSessions?: number;
+    assumptions?: Partial<CostAssumptions>;
+  } = {}
+): RunEstimate {
+  const { maxConcurrent = 2, delayBetweenSessions = 0 } = options;
+  if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+    throw new Error('maxConcurrent must be a whole number of at least 1');
+  }
+  if (!(delayBetweenSessions >= 0)) {
+    throw new Error('delayBetweenSessions must not be negative');
+  }
+  for (const [name, value] of Object.entries(options.assumptions ?? {})) {
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      throw new Error(`assumptions.${name} must be a finite number of at least 0`);
+    }
+  }
+  const assumptions = { ...DEFAULT_COST_ASSUMPTIONS, ...options.assumptions };
+
+  // The runner keeps maxConcurrent sessions going; starts may be spaced out
+  const poolDuration = (totalSessions / maxConcurrent) * assumptions.avgSessionDurationSec;
+  const spacedDuration = Math.max(0, totalSessions - 1) * delayBetweenSessions / 1000 +
+    assumptions.avgSessionDurationSec;
+  const estimatedDurationSec = Math.ceil(Math.max(poolDuration, spacedDuration));
+
+  // Impression calls are mostly prompt; assume an 80/20 input/output split
+  const decisions = totalSessions * assumptions.avgDecisionsPerSession;
+  const inputTokens = decisions * assumptions.inputTokensPerDecision +
+    totalSessions * assumptions.tokensPerImpression * 0.8;
+  const outputTokens = decisions * assumptions.outputTokensPerDecision +
+    totalSessions * assumptions.tokensPerImpression * 0.2;
+  const estimatedBrowserMinutes = (totalSessions * assumptions.avgSessionDurationSec) / 60;
+
+  const llmCost = (inputTokens / 1e6) * assumptions.inputCostPerMillion +
+    (outputTokens / 1e6) * assumptions.outputCostPerMillion;
+  const browserCost = estimatedBrowserMinutes * assumptions.browserCostPerMinute;
+
+  return {
+    estimatedDurationSec,
+    estimatedTokens: {
+      input: Math.round(inputTokens),
+      output: Math.round(outputTokens),
+      total: Math.round(inputTokens + outputTokens),
+    },
+    estimatedBrowserMinutes,
+    estimatedCost: {
+      llm: llmCost,
+      browser: browserCost,
+      total: llmCost + browserCost,
+    },
+    assumptions,
+  };
+}
+
+/**
+ * Plan an experiment: required sessions, duration and cost. Throws on
+ * inputs outside their ranges rather than planning infinite sessions.
+ */
+export function planExperiment(request: PlanRequest): ExperimentPlan {
+  const {
+    baselineConversionRate,
+    minDetectableEffect,
+    effectType = 'relative',
+    alpha = 0.05,
+    power = 0.8,
+    variantCount = 2,
+  } = request;
+
+  // Negated so NaN and non-numeric input fail too
+  if (!(baselineConversionRate > 0 && baselineConversionRate < 100)) {
+    throw new Error('baselineConversionRate must be between 0 and 100');
+  }
+  if (!(minDetectableEffect > 0)) {
+    throw new Error('minDetectableEffect must be positive');
+  }
+  if (!(alpha > 0 && alpha < 1)) {
+    throw new Error('alpha must be between 0 and 1');
+  }
+  if (!(power > 0 && power < 1)) {
+    throw new Error('power must be between 0 and 1');
+  }
+  if (!Number.isInteger(variantCount) || variantCount < 2) {
+    throw new Error('variantCount must be a whole number of at least 2');
+  }
+
+  const p1 = baselineConversionRate / 100;
+  const p2 = effectType === 'relative'
+    ? p1 * (1 + minDetectableEffect / 100)
+    : p1 + minDetectableEffect / 100;
+  if (p2 >= 1) {
+    throw new Error('Baseline plus minimum detectable effect must stay below 100%');
+  }
+
+  // Each non-control variant is one comparison against the control
+  const adjustedAlpha = alpha / (variantCount - 1);
+  const sessionsPerVariant = sampleSizePerGroup(p1, p2, adjustedAlpha, power);
+  const totalSessions = sessionsPerVariant * variantCount;
+
+  return {
+    sessionsPerVariant,
+    totalSessions,
+    targetConversionRate: p2 * 100,
+    adjustedAlpha,
+    achievedPower: powerForSampleSize(p1, p2, sessionsPerVariant, adjustedAlpha),
+    ...estimateRun(totalSessions, request),
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Swarm Rate Limiting
+ * 
+ * Token buckets that pace calls to external services (Anthropic requests,
+ * Browserbase session creation) so a wider worker pool doesn't turn into
+ * a burst of 429s. Share one set of buckets between runners that use the
+ * same API keys.
+ */
+
+/**
+ * Rate for one bucket
+ */
+export interface RateLimit {
+  /** Sustained calls per minute */
+  perMinute: number;
+
+  /** Calls allowed back-to-back before pacing kicks in (default 1) */
+  burst?: number;
+}
+
+/**
+ * Limits for the services a swarm calls
+ */
+export interface RateLimitSettings {
+  /** Anthropic API requests (default 50/min, env SWARM_ANTHROPIC_RPM) */
+  anthropic?: RateLimit;
+
+  /** Browser session creation (default 20/min, env SWARM_BROWSER_SESSIONS_PER_MIN) */
+  browserSessions?: RateLimit;
+}
+
+/**
+ * Buckets handed to the browser agent
+ */
+export interface RateLimiters {
+  anthropic?: TokenBucket;
+  browserSessions?: TokenBucket;
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private capacity: number;
+  private ratePerMs: number;
+  private lastRefill: number;
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(limit: RateLimit) {
+    // Negated so NaN (e.g. from a malformed env var) is rejected too
+    if (!(limit.perMinute > 0)) {
+      throw new Error('Rate limit must be positive');
+    }
+    if (limit.burst !== undefined && !(Number.isInteger(limit.burst) && limit.burst > 0)) {
+      throw new Error('Rate limit burst must be a positive integer');
+    }
+    this.capacity = limit.burst ?? 1;
+    this.tokens = this.capacity;
+    this.ratePerMs = limit.perMinute / 60000;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Wait for a token. Callers are served in arrival order; rejects with
+   * the signal's reason if aborted while waiting.
+   */
+  take(signal?: AbortSignal): Promise<void> {
+    const turn = this.tail.then(() => this.acquire(signal));
+    this.tail = turn.catch(() => {});
+    return turn;
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    this.refill();
+    if (this.tokens < 1) {
+      await sleep((1 - this.tokens) / this.ratePerMs, signal);
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.ratePerMs);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Build buckets from settings, falling back to environment defaults
+ */
+export function createRateLimiters(settings: RateLimitSettings = {}): RateLimiters {
+  return {
+    anthropic: new TokenBucket(settings.anthropic ?? {
+      perMinute: Number(process.env.SWARM_ANTHROPIC_RPM) || 50,
+      burst: 5,
+    }),
+    browserSessions: new TokenBucket(settings.browserSessions ?? {
+      perMinute: Number(process.env.SWARM_BROWSER_SESSIONS_PER_MIN) || 20,
+      burst: 2,
+    }),
+  };
+}
+
+/**
+ * Abortable sleep
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,223 @@
+/**
+ * Swarm Reading Model
+ *
+ * How long a persona dwells on the text in front of them and which
+ * sections they read rather than skim. Reading speed comes from the
+ * persona's tech-savviness and age, how much of each section they take in
+ * from their thoroughness, and how long they stay with the text before
+ * moving on from their patience.
+ */
+
+import type { Page } from 'playwright-core';
+import type { Persona } from '../persona';
+import type { AgentSession, SectionAttention, SectionAttentionSummary } from './types';
+import { stripHash } from '../utils';
+
+// Average adult silent reading rate for non-fiction, in words per minute
+const BASE_WPM = 238;
+
+// Share of a section's words that must be read for it to count as read
+const READ_SHARE = 0.6;
+
+// Time to take in a section's heading and shape before reading any of it
+const GLANCE_MS = 400;
+
+// Shortest read action, for screens with little or no text
+const MIN_READ_MS = 800;
+
+// Label for text above the page's first heading
+const TOP_OF_PAGE = '(top of page)';
+
+const TECH_FACTOR: Record<Persona['demographics']['techSavviness'], number> = {
+  low: 0.85,
+  medium: 1,
+  high: 1.15,
+};
+
+const AGE_FACTOR: Record<Persona['demographics']['ageRange'], number> = {
+  '18-24': 1.05,
+  '25-34': 1.05,
+  '35-44': 1,
+  '45-54': 0.95,
+  '55-64': 0.9,
+  '65+': 0.8,
+};
+
+/**
+ * A section of the page with text on screen
+ */
+export interface VisibleSection {
+  /** Heading that opens the section */
+  section: string;
+
+  /** Distance of its heading from the top of the page in pixels */
+  top: number;
+
+  /** Words of the section inside the viewport */
+  words: number;
+}
+
+/**
+ * Time a persona spends on one section during a read
+ */
+export interface SectionReading extends VisibleSection {
+  /** Words read */
+  wordsRead: number;
+
+  /** Time spent in ms */
+  dwellMs: number;
+}
+
+/**
+ * Sections with text in the viewport, top to bottom. Sections start at
+ * h1-h3 headings; words in blocks cut off by the viewport edge are counted
+ * in proportion to how much of the block shows.
+ */
+export async function visibleSections(page: Page): Promise<VisibleSection[]> {
+  return page.evaluate((topOfPage) => {
+    const selector = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, dt, dd, td, th, figcaption, pre';
+    const sections: Array<{ section: string; top: number; words: number }> = [];
+    let current = { section: topOfPage, top: 0, words: 0 };
+
+    for (const el of Array.from(document.querySelectorAll<HTMLElement>(selector))) {
+      // Nested blocks (a <p> in an <li>) are counted with their outermost block
+      if (el.parentElement?.closest(selector)) continue;
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) continue;
+
+      const text = el.innerText.trim();
+      if (/^H[1-3]$/.test(el.tagName)) {
+        if (current.words > 0) sections.push(current);
+        current = { section: text.slice(0, 80), top: Math.round(rect.top + window.scrollY), words: 0 };
+      }
+
+      const shown = Math.min(rect.bottom, window.innerHeight) - Math.max(rect.top, 0);
+      if (shown <= 0) continue;
+      current.words += Math.round(text.split(/\s+/).filter(Boolean).length * (shown / rect.height));
+    }
+    if (current.words > 0) sections.push(current);
+    return sections;
+  }, TOP_OF_PAGE);
+}
+
+/**
+ * Words per minute the persona reads at
+ */
+export function readingSpeed(persona: Persona): number {
+  return BASE_WPM * TECH_FACTOR[persona.demographics.techSavviness] * AGE_FACTOR[persona.demographics.ageRange];
+}
+
+/**
+ * How the persona spends one read of the screen. They glance over every
+ * visible section, then work down them (the one they said they'd focus on
+ * first), reading the share of each that their thoroughness calls for,
+ * until their attention for this read runs out.
+ */
+export function planReading(persona: Persona, sections: VisibleSection[], focus?: string): SectionReading[] {
+  const wanted = focus?.trim().toLowerCase();
+  const ordered = wanted
+    ? [...sections].sort((a, b) =>
+        Number(b.section.toLowerCase().includes(wanted)) - Number(a.section.toLowerCase().includes(wanted)))
+    : sections;
+
+  const msPerWord = 60000 / readingSpeed(persona);
+  const depth = Math.max(0.1, persona.behavior.thoroughness / 10);
+  // Patient personas stay with the text longer before doing something else
+  const span = 3000 + persona.behavior.patience * 1500;
+  const glance = Math.min(GLANCE_MS, span / Math.max(1, sections.length));
+  let remaining = span - glance * sections.length;
+
+  return ordered.map(section => {
+    const wordsRead = Math.floor(Math.min(section.words * depth, remaining / msPerWord));
+    remaining -= wordsRead * msPerWord;
+    return { ...section, wordsRead, dwellMs: Math.round(glance + wordsRead * msPerWord) };
+  });
+}
+
+/**
+ * Total time a read takes
+ */
+export function readingTime(readings: SectionReading[]): number {
+  return Math.max(MIN_READ_MS, readings.reduce((sum, r) => sum + r.dwellMs, 0));
+}
+
+/**
+ * One-line account of a read, e.g. "Read 120 of 310 words on screen;
+ * skimmed 2 of 3 sections"
+ */
+export function describeReading(readings: SectionReading[]): string {
+  const words = readings.reduce((sum, r) => sum + r.words, 0);
+  const read = readings.reduce((sum, r) => sum + r.wordsRead, 0);
+  const skimmed = readings.filter(r => r.wordsRead < r.words * READ_SHARE).length;
+  return `Read ${read} of ${words} words on screen` +
+    (skimmed > 0 ? `; skimmed ${skimmed} of ${readings.length} sections` : '');
+}
+
+/**
+ * Add a read to the session's attention per section (keyed by page and
+ * heading). Returns the sections this read finished reading.
+ */
+export function recordAttention(
+  attention: Map<string, SectionAttention>,
+  url: string,
+  readings: SectionReading[]
+): string[] {
+  const finished: string[] = [];
+  for (const reading of readings) {
+    const key = `${stripHash(url)}#${reading.section}`;
+    const entry: SectionAttention = attention.get(key)
+      ?? { section: reading.section, url, top: reading.top, words: 0, wordsRead: 0, dwellMs: 0, outcome: 'skimmed' };
+    const wasRead = entry.outcome === 'read';
+
+    entry.words = Math.max(entry.words, reading.words);
+    entry.wordsRead = Math.min(entry.words, entry.wordsRead + reading.wordsRead);
+    entry.dwellMs += reading.dwellMs;
+    entry.outcome = entry.wordsRead >= entry.words * READ_SHARE ? 'read' : 'skimmed';
+    attention.set(key, entry);
+
+    if (!wasRead && entry.outcome === 'read') finished.push(entry.section);
+  }
+  return finished;
+}
+
+/**
+ * Per-section reading across a variant's sessions, page by page in the
+ * order they were visited and top to bottom within each page
+ */
+export function summarizeAttention(sessions: AgentSession[]): SectionAttentionSummary[] | undefined {
+  const summaries = new Map<string, SectionAttentionSummary & { order: number; top: number; dwellSum: number }>();
+  for (const session of sessions) {
+    const pages = (session.metrics.pages ?? [session.url]).map(stripHash);
+    for (const entry of session.metrics.attention ?? []) {
+      const key = `${stripHash(entry.url)}#${entry.section}`;
+      const summary = summaries.get(key) ?? {
+        section: entry.section,
+        url: entry.url,
+        sessions: 0,
+        read: 0,
+        skimmed: 0,
+        avgDwellMs: 0,
+        order: Math.max(0, pages.indexOf(stripHash(entry.url))),
+        top: entry.top,
+        dwellSum: 0,
+      };
+      summary.sessions++;
+      if (entry.outcome === 'read') summary.read++;
+      else summary.skimmed++;
+      summary.dwellSum += entry.dwellMs;
+      summaries.set(key, summary);
+    }
+  }
+  if (summaries.size === 0) return undefined;
+
+  return [...summaries.values()]
+    .sort((a, b) => a.order - b.order || a.top - b.top)
+    .map(s => ({
+      section: s.section,
+      url: s.url,
+      sessions: s.sessions,
+      read: s.read,
+      skimmed: s.skimmed,
+      avgDwellMs: s.dwellSum / s.sessions,
+    }));
+}
@@ -0,0 +1,99 @@
+/**
+ * Swarm Session Recording
+ *
+ * Captures what a persona saw at each decision, so a session can be
+ * stepped through afterwards next to the persona's reasoning. Frames are
+ * viewport screenshots or DOM snapshots; DOM snapshots have their scripts
+ * removed so replaying one never runs the page's code.
+ */
+
+import type { Page } from 'playwright-core';
+import type { RecordingFrame, RecordingMode, SessionRecording } from './types';
+
+// DOM snapshots larger than this (in characters) are kept as screenshots instead
+const MAX_HTML_LENGTH = 2_000_000;
+
+/**
+ * Collects the frames of one session's recording
+ */
+export class SessionRecorder {
+  private frames: RecordingFrame[] = [];
+
+  constructor(
+    private page: Page,
+    private mode: RecordingMode,
+    private viewport: { width: number; height: number }
+  ) {}
+
+  /**
+   * Capture the page before the action at `actionIndex` is taken. A
+   * screenshot already taken for vision perception is reused. A frame that
+   * can't be captured is skipped rather than failing the session.
+   */
+  async capture(actionIndex: number, screenshot?: string): Promise<void> {
+    try {
+      const state = await this.page.evaluate((withHtml) => {
+        if (!withHtml) return { url: location.href, scrollY: window.scrollY, html: '' };
+
+        const clone = document.documentElement.cloneNode(true) as HTMLElement;
+        clone.querySelectorAll('script, noscript').forEach(el => el.remove());
+
+        // Typed values live in properties, not attributes; copy them across
+        const live = document.querySelectorAll('input, textarea, select');
+        const copies = clone.querySelectorAll('input, textarea, select');
+        live.forEach((el, i) => {
+          const copy = copies[i];
+          if (!copy) return;
+          if (el instanceof HTMLInputElement) {
+            if (el.type === 'password') copy.setAttribute('value', '•'.repeat(el.value.length));
+            else if (el.type === 'checkbox' || el.type === 'radio') copy.toggleAttribute('checked', el.checked);
+            else copy.setAttribute('value', el.value);
+          } else if (el instanceof HTMLTextAreaElement) {
+            copy.textContent = el.value;
+          } else if (el instanceof HTMLSelectElement) {
+            copy.querySelectorAll('option').forEach((option, j) => {
+              option.toggleAttribute('selected', el.options[j]?.selected ?? false);
+            });
+          }
+        });
+
+        // Relative stylesheets and images resolve against the original page
+        const head = clone.querySelector('head');
+        if (head && !head.querySelector('base')) {
+          const base = document.createElement('base');
+          base.href = location.href;
+          head.prepend(base);
+        }
+
+        return { url: location.href, scrollY: window.scrollY, html: `<!DOCTYPE html>${clone.outerHTML}` };
+      }, this.mode === 'dom');
+
+      const frame: RecordingFrame = {
+        timestamp: Date.now(),
+        actionIndex,
+        url: state.url,
+        scrollY: state.scrollY,
+      };
+      if (state.html && state.html.length <= MAX_HTML_LENGTH) {
+        frame.html = state.html;
+      } else {
+        frame.screenshot = screenshot
+          ?? (await this.page.screenshot({ type: 'jpeg', quality: 50 })).toString('base64');
+      }
+      this.frames.push(frame);
+    } catch (error) {
+      console.warn(
+        `[SessionRecorder] Skipped frame ${actionIndex}:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+  }
+
+  /**
+   * The finished recording, if any frame was captured
+   */
+  finish(sessionId: string): SessionRecording | undefined {
+    if (this.frames.length === 0) return undefined;
+    return { sessionId, mode: this.mode, viewport: this.viewport, frames: this.frames };
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Swarm Experiment Requests
+ *
+ * Parses and validates the experiment body that /api/swarm/run,
+ * /api/swarm/stream and /api/experiments all accept, so the three routes
+ * apply the same defaults and reject bad input with the same errors.
+ */
+
+import type { ExperimentStore } from '../store';
+import type {
+  BanditConfig,
+  ConversionDetector,
+  ConversionStep,
+  DecisionMode,
+  ExperimentConfig,
+  FailureKind,
+  MultipleComparisonCorrection,
+  Perception,
+  RecordingMode,
+  SequentialTestConfig,
+} from './types';
+
+/**
+ * Request body for starting an experiment
+ */
+export interface ExperimentRequest {
+  url: string;
+  variants: Array<{
+    id: string;
+    name: string;
+    isControl: boolean;
+    css?: string;
+    js?: string;
+  }>;
+  conversionGoal: {
+    type: 'click' | 'submit' | 'navigate' | 'custom' | 'funnel';
+    target: string;
+    description: string;
+    steps?: ConversionStep[];
+    detectors?: ConversionDetector[];
+  };
+  sessionsPerVariant?: number;
+  targetAudience?: string;
+  personaCount?: number;
+  maxConcurrent?: number;
+  significanceLevel?: number;
+  multipleComparisonCorrection?: MultipleComparisonCorrection;
+  analysisMode?: 'frequentist' | 'bayesian';
+  bayesianPrior?: { alpha: number; beta: number };
+  sequential?: SequentialTestConfig;
+  trafficAllocation?: Record<string, number>;
+  bandit?: BanditConfig;
+  excludeFailures?: FailureKind[];
+  budgetUsd?: number;
+  perception?: Perception;
+  recording?: RecordingMode;
+  decisions?: DecisionMode;
+  replayExperimentId?: string;
+}
+
+/**
+ * A validated request with defaults applied
+ */
+export type ParsedExperimentRequest = ExperimentRequest & Required<Pick<ExperimentRequest,
+  'sessionsPerVariant' | 'personaCount' | 'maxConcurrent' | 'significanceLevel' |
+  'multipleComparisonCorrection' | 'analysisMode'
+>> & {
+  /** Experiment whose decisions are replayed (decisions: 'replay' only) */
+  replayed: ExperimentConfig | null;
+};
+
+/**
+ * A request the routes should reject, with the HTTP status to answer with
+ */
+export class ExperimentRequestError extends Error {
+  readonly status: number;
+  readonly experimentId?: string;
+
+  constructor(message: string, status = 400, experimentId?: string) {
+    super(message);
+    this.name = 'ExperimentRequestError';
+    this.status = status;
+    this.experimentId = experimentId;
+  }
+}
+
+const STEP_TYPES = ['click', 'submit', 'navigate', 'custom'];
+const DECISION_MODES: DecisionMode[] = ['llm', 'replay', 'rules'];
+
+/**
+ * Validate an experiment request and apply defaults. Replays load the
+ * source experiment from the store, since its personas are reused.
+ * Throws ExperimentRequestError for anything the caller got wrong.
+ */
+export async function parseExperimentRequest(
+  body: ExperimentRequest,
+  store: ExperimentStore
+): Promise<ParsedExperimentRequest> {
+  const { url, variants, conversionGoal, decisions, replayExperimentId } = body;
+
+  if (!url || !variants?.length || !conversionGoal) {
+    throw new ExperimentRequestError('Missing required fields: url, variants, conversionGoal');
+  }
+
+  if (conversionGoal.type === 'funnel') {
+    if (!conversionGoal.steps?.length) {
+      throw new ExperimentRequestError('A funnel conversionGoal needs at least one step');
+    }
+    conversionGoal.steps.forEach((step, i) => validateStep(step, `conversionGoal.steps[${i}]`));
+  } else {
+    validateStep({ ...conversionGoal, name: 'conversionGoal' } as ConversionStep, 'conversionGoal');
+  }
+
+  if (decisions && !DECISION_MODES.includes(decisions)) {
+    throw new ExperimentRequestError(`decisions must be one of: ${DECISION_MODES.join(', ')}`);
+  }
+
+  let replayed: ExperimentConfig | null = null;
+  if (decisions === 'replay') {
+    if (!replayExperimentId) {
+      throw new ExperimentRequestError('Replaying decisions needs replayExperimentId');
+    }
+    replayed = await store.getConfig(replayExperimentId);
+    if (!replayed) {
+      throw new ExperimentRequestError('Experiment to replay not found', 404, replayExperimentId);
+    }
+  }
+
+  return {
+    ...body,
+    sessionsPerVariant: body.sessionsPerVariant ?? 5,
+    personaCount: body.personaCount ?? 5,
+    maxConcurrent: body.maxConcurrent ?? 2,
+    significanceLevel: body.significanceLevel ?? 0.05,
+    multipleComparisonCorrection: body.multipleComparisonCorrection ?? 'holm',
+    analysisMode: body.analysisMode ?? 'frequentist',
+    replayed,
+  };
+}
+
+/**
+ * Check a goal step and its detectors; `path` names it in errors
+ */
+function validateStep(step: ConversionStep, path: string): void {
+  if (!STEP_TYPES.includes(step.type)) {
+    throw new ExperimentRequestError(`${path}.type must be one of: ${STEP_TYPES.join(', ')}`);
+  }
+  if (step.type === 'custom' && !step.detectors?.length) {
+    throw new ExperimentRequestError(`${path} is 'custom' and needs at least one detector`);
+  }
+  step.detectors?.forEach((detector, i) => validateDetector(detector, `${path}.detectors[${i}]`));
+}
+
+/**
+ * Check a detector has the fields its type needs and that its patterns compile
+ */
+function validateDetector(detector: ConversionDetector, path: string): void {
+  const missing = (field: string) => new ExperimentRequestError(`${path} (${detector.type}) needs ${field}`);
+
+  switch (detector.type) {
+    case 'element-clicked':
+      if (!detector.selector && !detector.text) throw missing('a selector or text');
+      return;
+    case 'url':
+      if (!detector.pattern) throw missing('a pattern');
+      validatePattern(detector.pattern, `${path}.pattern`, detector.flags);
+      return;
+    case 'network':
+      if (!detector.urlPattern) throw missing('a urlPattern');
+      validatePattern(detector.urlPattern, `${path}.urlPattern`);
+      return;
+    case 'dom':
+      if (!detector.selector) throw missing('a selector');
+      return;
+    case 'script':
+      if (!detector.expression) throw missing('an expression');
+      return;
+    case 'form-submitted':
+      if (detector.urlPattern) validatePattern(detector.urlPattern, `${path}.urlPattern`);
+      return;
+    default:
+      throw new ExperimentRequestError(
+        `${path}.type must be one of: element-clicked, url, network, dom, script, form-submitted`
+      );
+  }
+}
+
+function validatePattern(pattern: string, path: string, flags?: string): void {
+  try {
+    new RegExp(pattern, flags);
+  } catch {
+    throw new ExperimentRequestError(`${path} is not a valid regular expression: ${pattern}`);
+  }
+}
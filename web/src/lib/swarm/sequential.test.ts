@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { alphaSpending, evaluateInterim, type SequentialState } from './sequential';
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `expected ${expected}, got ${actual}`);
+
+describe('alphaSpending', () => {
+  it('follows the O\'Brien-Fleming boundary', () => {
+    close(alphaSpending(0.25, 0.05, 'obrien-fleming'), 0.0000886, 1e-7);
+    close(alphaSpending(0.5, 0.05, 'obrien-fleming'), 0.0055746);
+    assert.equal(alphaSpending(1, 0.05, 'obrien-fleming'), 0.05);
+    assert.equal(alphaSpending(0, 0.05, 'obrien-fleming'), 0);
+  });
+
+  it('follows the Pocock-type boundary', () => {
+    close(alphaSpending(0.5, 0.05, 'pocock'), 0.05 * Math.log(1 + (Math.E - 1) * 0.5));
+  });
+});
+
+describe('evaluateInterim', () => {
+  const look = (arms: Array<[string, number, number]>, state: SequentialState) => evaluateInterim({
+    arms: arms.map(([variantId, conversions, sessions]) => ({ variantId, conversions, sessions })),
+    controlId: 'control',
+    plannedSessions: 200,
+    significanceLevel: 0.05,
+    correction: 'none',
+    config: {},
+    state,
+  });
+
+  it('stops for efficacy and reports the alpha spent so far', () => {
+    const state = { alphaSpent: 0, looks: 0 };
+    const stop = look([['control', 5, 50], ['variant', 40, 50]], state);
+    assert.equal(stop?.reason, 'efficacy');
+    assert.equal(stop?.variantId, 'variant');
+    close(stop!.alphaSpent, alphaSpending(0.5, 0.05, 'obrien-fleming'));
+    assert.equal(state.looks, 1);
+  });
+
+  it('keeps running on an unclear result', () => {
+    const state = { alphaSpent: 0, looks: 0 };
+    assert.equal(look([['control', 10, 40], ['variant', 12, 40]], state), null);
+    close(state.alphaSpent, alphaSpending(0.4, 0.05, 'obrien-fleming'));
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Swarm Sequential Testing
+ *
+ * Interim analyses for experiments that may stop before every queued
+ * session has run. Type I error is controlled with a Lan-DeMets alpha-spending
+ * function: each look is tested at the alpha spent since the previous look,
+ * which is conservative compared to exact group-sequential boundaries.
+ * Futility is judged by conditional power under the current trend.
+ */
+
+import {
+  adjustPValues,
+  compareProportions,
+  normalCdf,
+  normalQuantile,
+  twoProportionZTest,
+  type ArmCounts,
+} from './statistics';
+import type {
+  EarlyStop,
+  MultipleComparisonCorrection,
+  SequentialTestConfig,
+} from './types';
+
+/**
+ * State carried between interim looks
+ */
+export interface SequentialState {
+  /** Alpha spent by all previous looks */
+  alphaSpent: number;
+
+  /** Number of looks taken so far */
+  looks: number;
+}
+
+/**
+ * Cumulative alpha spent at information fraction `t` (0-1)
+ */
+export function alphaSpending(
+  t: number,
+  alpha: number,
+  method: SequentialTestConfig['spending']
+): number {
+  if (t <= 0) return 0;
+  if (t >= 1) return alpha;
+
+  if (method === 'pocock') {
+    return alpha * Math.log(1 + (Math.E - 1) * t);
+  }
+  // O'Brien-Fleming-type: spends almost nothing early, most alpha at the end
+  return 2 - 2 * normalCdf(normalQuantile(1 - alpha / 2) / Math.sqrt(t));
+}
+
+/**
+ * Conditional power of a two-sided test under the current trend.
+ *
+ * `z` is the current test statistic (positive favours the variant) and
+ * `t` the information fraction reached so far.
+ */
+export function conditionalPower(z: number, t: number, alpha: number): number {
+  if (t >= 1) return z >= normalQuantile(1 - alpha / 2) ? 1 : 0;
+  if (t <= 0) return alpha / 2;
+
+  const critical = normalQuantile(1 - alpha / 2);
+  return 1 - normalCdf((critical - z / Math.sqrt(t)) / Math.sqrt(1 - t));
+}
+
+/**
+ * Run an interim look at the accumulated counts.
+ *
+ * Returns an EarlyStop when a variant beats the control at this look's
+ * nominal alpha, or when no variant has a realistic chance of doing so by
+ * the planned end. Returns null to keep running. Mutates `state`.
+ */
+export function evaluateInterim(params: {
+  arms: ArmCounts[];
+  controlId: string;
+  plannedSessions: number;
+  significanceLevel: number;
+  correction: MultipleComparisonCorrection;
+  config: SequentialTestConfig;
+  state: SequentialState;
+}): EarlyStop | null {
+  const { arms, controlId, plannedSessions, significanceLevel, correction, config, state } = params;
+  const {
+    spending = 'obrien-fleming',
+    minSessionsPerVariant = 5,
+    futility = true,
+    futilityThreshold = 0.1,
+    futilityMinFraction = 0.5,
+  } = config;
+
+  const control = arms.find(a => a.variantId === controlId);
+  if (!control) return null;
+  if (arms.some(a => a.sessions < minSessionsPerVariant)) return null;
+
+  const completedSessions = arms.reduce((sum, a) => sum + a.sessions, 0);
+  const informationFraction = Math.min(1, completedSessions / plannedSessions);
+  const cumulativeAlpha = alphaSpending(informationFraction, significanceLevel, spending);
+  const nominalAlpha = Math.max(0, cumulativeAlpha - state.alphaSpent);
+
+  state.alphaSpent = cumulativeAlpha;
+  state.looks++;
+
+  const challengers = arms.filter(a => a.variantId !== controlId);
+  // Same test as the final analysis (Fisher's exact for small counts); the
+  // z statistic still gives the direction and drives conditional power
+  const tests = challengers.map(arm =>
+    compareProportions(arm.conversions, arm.sessions, control.conversions, control.sessions)
+  );
+  const zScores = challengers.map(arm =>
+    twoProportionZTest(arm.conversions, arm.sessions, control.conversions, control.sessions).statistic ?? 0
+  );
+  const adjusted = adjustPValues(tests.map(t => t.pValue), correction);
+
+  // Efficacy: strongest variant that beats the control at this look
+  let winnerIndex = -1;
+  zScores.forEach((z, i) => {
+    if (z > 0 && adjusted[i] < nominalAlpha) {
+      if (winnerIndex < 0 || z > zScores[winnerIndex]) winnerIndex = i;
+    }
+  });
+
+  if (winnerIndex >= 0) {
+    const winner = challengers[winnerIndex];
+    return {
+      reason: 'efficacy',
+      message: `${winner.variantId} beat ${controlId} at interim look ${state.looks} ` +
+        `(adjusted p = ${adjusted[winnerIndex].toFixed(4)} < nominal alpha ${nominalAlpha.toFixed(4)})`,
+      variantId: winner.variantId,
+      look: state.looks,
+      completedSessions,
+      informationFraction,
+      nominalAlpha,
+      alphaSpent: cumulativeAlpha,
+    };
+  }
+
+  // Futility: even the most promising variant is unlikely to reach significance
+  if (futility && informationFraction >= futilityMinFraction) {
+    const bestPower = Math.max(
+      ...zScores.map(z => conditionalPower(z, informationFraction, significanceLevel))
+    );
+    if (bestPower < futilityThreshold) {
+      return {
+        reason: 'futility',
+        message: `No variant is likely to beat ${controlId} by the planned end ` +
+          `(best conditional power ${(bestPower * 100).toFixed(1)}% < ${(futilityThreshold * 100).toFixed(0)}%)`,
+        look: state.looks,
+        completedSessions,
+        informationFraction,
+        nominalAlpha,
+        alphaSpent: cumulativeAlpha,
+        conditionalPower: bestPower,
+      };
+    }
+  }
+
+  return null;
+}
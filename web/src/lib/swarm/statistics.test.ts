@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  adjustPValues,
+  compareProportions,
+  fisherExactTest,
+  twoProportionZTest,
+  wilsonInterval,
+} from './statistics';
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `expected ${expected}, got ${actual}`);
+
+describe('twoProportionZTest', () => {
+  it('matches the pooled z-test for 60/500 vs 40/500', () => {
+    const test = twoProportionZTest(60, 500, 40, 500);
+    close(test.statistic!, 2.1081851);
+    close(test.pValue, 0.0350150);
+  });
+
+  it('returns p = 1 when there is no variance', () => {
+    assert.equal(twoProportionZTest(0, 10, 0, 10).pValue, 1);
+  });
+});
+
+describe('fisherExactTest', () => {
+  it('gives the two-sided p-value for the tea-tasting table', () => {
+    close(fisherExactTest(3, 4, 1, 4).pValue, 0.4857143);
+  });
+
+  it('gives the two-sided p-value for 7/10 vs 1/10', () => {
+    close(fisherExactTest(7, 10, 1, 10).pValue, 0.0197666);
+  });
+});
+
+describe('compareProportions', () => {
+  it('uses Fisher for small expected counts and the z-test otherwise', () => {
+    assert.equal(compareProportions(3, 4, 1, 4).method, 'fisher-exact');
+    assert.equal(compareProportions(60, 500, 40, 500).method, 'two-proportion-z');
+  });
+});
+
+describe('wilsonInterval', () => {
+  it('bounds 5/10 at 95%', () => {
+    const ci = wilsonInterval(5, 10);
+    close(ci.lower, 0.2365931);
+    close(ci.upper, 0.7634069);
+  });
+
+  it('bounds 0/10 at 95% without going below zero', () => {
+    const ci = wilsonInterval(0, 10);
+    assert.equal(ci.lower, 0);
+    close(ci.upper, 0.2775328);
+  });
+});
+
+describe('adjustPValues', () => {
+  it('applies Holm step-down', () => {
+    assert.deepEqual(adjustPValues([0.01, 0.04, 0.03], 'holm'), [0.03, 0.06, 0.06]);
+  });
+});
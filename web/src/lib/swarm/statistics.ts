@@ -0,0 +1,449 @@
+/**
+ * Swarm Statistics
+ *
+ * Frequentist tests used to compare experiment variants: two-proportion
+ * z-test and Fisher's exact test for conversion, Welch's t-test for
+ * continuous metrics, Wilson / Newcombe intervals for rates and lift, and
+ * multiple-comparison adjustment across a family of tests.
+ *
+ * Proportions here are fractions (0-1); the runner converts to percentages.
+ */
+
+import type {
+  ConfidenceInterval,
+  LiftEstimate,
+  MeanDifferenceTest,
+  MultipleComparisonCorrection,
+  SignificanceTest,
+} from './types';
+
+/**
+ * Conversion counts for one arm of an experiment
+ */
+export interface ArmCounts {
+  variantId: string;
+  conversions: number;
+  sessions: number;
+}
+
+/**
+ * Summary statistics for a continuous metric
+ */
+export interface SampleSummary {
+  mean: number;
+  stdDev: number;
+  n: number;
+}
+
+/**
+ * Standard normal cumulative distribution function
+ */
+export function normalCdf(z: number): number {
+  // Abramowitz & Stegun 7.1.26 (max error ~1.5e-7)
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's approximation)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02,
+    1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02,
+    6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00,
+    -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00,
+    3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+export function logGamma(x: number): number {
+  const coef = [76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const c of coef) {
+    y += 1;
+    ser += c / y;
+  }
+  return -tmp + Math.log(2.5066282746310005 * ser / x);
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // Use the continued fraction where it converges quickly
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+
+  return h;
+}
+
+/**
+ * Student's t cumulative distribution function
+ */
+export function studentTCdf(t: number, df: number): number {
+  const tail = incompleteBeta(df / (df + t * t), df / 2, 0.5) / 2;
+  return t >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Inverse of Student's t CDF (bisection on the CDF)
+ */
+export function studentTQuantile(p: number, df: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  let lo = -1000;
+  let hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < p) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * Wilson score interval for a binomial proportion
+ */
+export function wilsonInterval(
+  successes: number,
+  trials: number,
+  level = 0.95
+): ConfidenceInterval {
+  if (trials === 0) return { lower: 0, upper: 1, level };
+
+  const z = normalQuantile(1 - (1 - level) / 2);
+  const p = successes / trials;
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (p + z2 / (2 * trials)) / denominator;
+  const halfWidth = (z * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials))) / denominator;
+
+  return {
+    lower: Math.max(0, center - halfWidth),
+    upper: Math.min(1, center + halfWidth),
+    level,
+  };
+}
+
+/**
+ * Two-sided two-proportion z-test (pooled standard error)
+ */
+export function twoProportionZTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): SignificanceTest {
+  if (trialsA === 0 || trialsB === 0) {
+    return { method: 'two-proportion-z', statistic: 0, pValue: 1 };
+  }
+
+  const pA = successesA / trialsA;
+  const pB = successesB / trialsB;
+  const pooled = (successesA + successesB) / (trialsA + trialsB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB));
+
+  if (se === 0) {
+    return { method: 'two-proportion-z', statistic: 0, pValue: 1 };
+  }
+
+  const z = (pA - pB) / se;
+  return {
+    method: 'two-proportion-z',
+    statistic: z,
+    pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))),
+  };
+}
+
+/**
+ * Two-sided Fisher's exact test on a 2x2 contingency table
+ */
+export function fisherExactTest(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): SignificanceTest {
+  const totalSuccesses = successesA + successesB;
+  const total = trialsA + trialsB;
+
+  const logFactorial = (n: number) => logGamma(n + 1);
+  const logChoose = (n: number, k: number) =>
+    logFactorial(n) - logFactorial(k) - logFactorial(n - k);
+  // Hypergeometric probability of `k` successes landing in group A
+  const probability = (k: number) => Math.exp(
+    logChoose(trialsA, k) + logChoose(trialsB, totalSuccesses - k) - logChoose(total, totalSuccesses)
+  );
+
+  const minK = Math.max(0, totalSuccesses - trialsB);
+  const maxK = Math.min(trialsA, totalSuccesses);
+  const observed = probability(successesA);
+
+  // Sum all tables at least as extreme (no more likely) than the observed one
+  let pValue = 0;
+  for (let k = minK; k <= maxK; k++) {
+    const p = probability(k);
+    if (p <= observed * (1 + 1e-7)) {
+      pValue += p;
+    }
+  }
+
+  return { method: 'fisher-exact', pValue: Math.min(1, pValue) };
+}
+
+/**
+ * Compare conversion counts, picking Fisher's exact test when any expected
+ * cell count is below 5 and the z-test otherwise
+ */
+export function compareProportions(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number
+): SignificanceTest {
+  const total = trialsA + trialsB;
+  if (total === 0) return { method: 'fisher-exact', pValue: 1 };
+
+  const totalSuccesses = successesA + successesB;
+  const totalFailures = total - totalSuccesses;
+  const minExpected = Math.min(
+    (trialsA * totalSuccesses) / total,
+    (trialsA * totalFailures) / total,
+    (trialsB * totalSuccesses) / total,
+    (trialsB * totalFailures) / total
+  );
+
+  return minExpected < 5
+    ? fisherExactTest(successesA, trialsA, successesB, trialsB)
+    : twoProportionZTest(successesA, trialsA, successesB, trialsB);
+}
+
+/**
+ * Absolute and relative lift of A over B with intervals.
+ *
+ * The absolute interval uses Newcombe's hybrid score method (built on Wilson
+ * intervals); the relative interval uses the Katz log method on the rate ratio.
+ */
+export function proportionLift(
+  successesA: number,
+  trialsA: number,
+  successesB: number,
+  trialsB: number,
+  level = 0.95
+): LiftEstimate {
+  const pA = trialsA > 0 ? successesA / trialsA : 0;
+  const pB = trialsB > 0 ? successesB / trialsB : 0;
+  const ciA = wilsonInterval(successesA, trialsA, level);
+  const ciB = wilsonInterval(successesB, trialsB, level);
+
+  const absolute = pA - pB;
+  const absoluteCI: ConfidenceInterval = {
+    lower: absolute - Math.sqrt((pA - ciA.lower) ** 2 + (ciB.upper - pB) ** 2),
+    upper: absolute + Math.sqrt((ciA.upper - pA) ** 2 + (pB - ciB.lower) ** 2),
+    level,
+  };
+
+  if (pB === 0 || trialsA === 0) {
+    return { absolute, absoluteCI, relative: null, relativeCI: null };
+  }
+
+  // Continuity correction keeps the log interval finite when A has no conversions
+  const correction = successesA === 0 ? 0.5 : 0;
+  const a = successesA + correction;
+  const b = successesB + correction;
+  const nA = trialsA + 2 * correction;
+  const nB = trialsB + 2 * correction;
+  const z = normalQuantile(1 - (1 - level) / 2);
+  const logRatio = Math.log((a / nA) / (b / nB));
+  const se = Math.sqrt(1 / a - 1 / nA + 1 / b - 1 / nB);
+
+  return {
+    absolute,
+    absoluteCI,
+    relative: pA / pB - 1,
+    relativeCI: {
+      lower: Math.exp(logRatio - z * se) - 1,
+      upper: Math.exp(logRatio + z * se) - 1,
+      level,
+    },
+  };
+}
+
+/**
+ * Summarize a sample of values (mean and sample standard deviation)
+ */
+export function summarize(values: number[]): SampleSummary {
+  const n = values.length;
+  if (n === 0) return { mean: 0, stdDev: 0, n: 0 };
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = n > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)
+    : 0;
+
+  return { mean, stdDev: Math.sqrt(variance), n };
+}
+
+/**
+ * Welch's unequal-variance t-test for the difference in means (A - B).
+ * Returns null when either group has fewer than two observations.
+ */
+export function welchTTest(
+  a: SampleSummary,
+  b: SampleSummary,
+  level = 0.95
+): MeanDifferenceTest | null {
+  if (a.n < 2 || b.n < 2) return null;
+
+  const difference = a.mean - b.mean;
+  const varA = (a.stdDev * a.stdDev) / a.n;
+  const varB = (b.stdDev * b.stdDev) / b.n;
+  const se = Math.sqrt(varA + varB);
+
+  if (se === 0) {
+    return {
+      method: 'welch-t',
+      statistic: 0,
+      pValue: difference === 0 ? 1 : 0,
+      degreesOfFreedom: a.n + b.n - 2,
+      difference,
+      differenceCI: { lower: difference, upper: difference, level },
+    };
+  }
+
+  const t = difference / se;
+  const df = (varA + varB) ** 2 /
+    ((varA * varA) / (a.n - 1) + (varB * varB) / (b.n - 1));
+  const critical = studentTQuantile(1 - (1 - level) / 2, df);
+
+  return {
+    method: 'welch-t',
+    statistic: t,
+    pValue: Math.min(1, 2 * (1 - studentTCdf(Math.abs(t), df))),
+    degreesOfFreedom: df,
+    difference,
+    differenceCI: {
+      lower: difference - critical * se,
+      upper: difference + critical * se,
+      level,
+    },
+  };
+}
+
+/**
+ * Adjust a family of p-values for multiple comparisons.
+ *
+ * Holm-Bonferroni controls the family-wise error rate; Benjamini-Hochberg
+ * controls the false discovery rate. Results are returned in input order.
+ */
+export function adjustPValues(
+  pValues: number[],
+  method: MultipleComparisonCorrection
+): number[] {
+  const m = pValues.length;
+  if (method === 'none' || m <= 1) return [...pValues];
+
+  const order = pValues
+    .map((p, index) => ({ p, index }))
+    .sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+
+  if (method === 'holm') {
+    // Step-down: running maximum of (m - rank) * p
+    let running = 0;
+    order.forEach(({ p, index }, rank) => {
+      running = Math.max(running, Math.min(1, (m - rank) * p));
+      adjusted[index] = running;
+    });
+  } else {
+    // Step-up: running minimum of m / (rank + 1) * p from the largest p down
+    let running = 1;
+    for (let rank = m - 1; rank >= 0; rank--) {
+      const { p, index } = order[rank];
+      running = Math.min(running, Math.min(1, (m / (rank + 1)) * p));
+      adjusted[index] = running;
+    }
+  }
+
+  return adjusted;
+}
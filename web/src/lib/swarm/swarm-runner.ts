@@ -7,25 +7,99 @@
  */
 
 import { BrowserAgent } from './browser-agent';
+import type { RunControl } from './control';
+import { createRateLimiters, type RateLimiters } from './rate-limit';
+import { backoffDelay, classifyFailure } from './failures';
+import {
+  createBrowserProvider,
+  type BrowserProvider,
+  type BrowserProviderConfig,
+} from './browser-provider';
+import type { DecisionProvider } from './decision';
+import type { LLMClient } from '../llm';
+import { addUsage, emptyUsage, sumUsage } from './usage';
+import { summarizeFormFunnel } from './forms';
+import { summarizeFunnel } from './funnel';
+import { summarizeHeatmaps, summarizeScrollReach } from './heatmap';
+import { summarizeAttention } from './reading';
+import { analyzeBayesian, mulberry32 } from './bayesian';
+import { evaluateInterim, type SequentialState } from './sequential';
+import {
+  allocateSessions,
+  normalizeWeights,
+  sampleVariant,
+  thompsonProbabilities,
+  weightedCounts,
+} from './allocation';
+import {
+  adjustPValues,
+  compareProportions,
+  proportionLift,
+  summarize,
+  welchTTest,
+  wilsonInterval,
+  type ArmCounts,
+} from './statistics';
+import { hashString } from '../utils';
 import type { Persona } from '../persona';
+import type { ExperimentStore } from '../store';
 import type { 
   AgentSession, 
+  BayesianResults,
+  ConfidenceInterval,
+  ConversionGoal,
   ExperimentConfig, 
   ExperimentStatus,
   ExperimentResults,
+  VariantComparison,
   VariantResult,
   ExperimentVariant,
+  FailureKind,
+  FunnelStepResult,
+  MultipleComparisonCorrection,
 } from './types';
 
+/**
+ * How often a run refreshes its stored status while sessions are running
+ */
+const HEARTBEAT_MS = 30_000;
+
+/**
+ * A status nobody has refreshed for this long has lost its runner
+ */
+const STALE_AFTER_MS = 5 * HEARTBEAT_MS;
+
+/**
+ * Whether a stored status was left behind by a runner that is gone (a
+ * crash, a restart or a request that hit its time limit) rather than
+ * being kept up to date by a live one
+ */
+export function isStaleStatus(status: ExperimentStatus, now = Date.now()): boolean {
+  return status.updatedAt === undefined || now - status.updatedAt > STALE_AFTER_MS;
+}
+
 /**
  * Event emitter for progress updates
  */
 type ProgressCallback = (status: ExperimentStatus) => void;
 
+/**
+ * A session waiting to run
+ */
+interface QueuedSession {
+  variant: ExperimentVariant;
+  persona: Persona;
+  assignmentProbability: number;
+}
+
 export class SwarmRunner {
   private agent: BrowserAgent;
   private maxConcurrent: number;
   private delayBetweenSessions: number;
+  private maxAttempts: number;
+  private ownedBrowserProvider?: BrowserProvider;
+  private retryBaseDelayMs: number;
+  private store?: ExperimentStore;
 
   constructor(config?: {
     maxConcurrent?: number;
@@ -33,68 +107,218 @@ export class SwarmRunner {
     anthropicApiKey?: string;
     browserbaseApiKey?: string;
     browserbaseProjectId?: string;
+    /** Browser source: a provider config ('local' or 'browserbase') or a shared provider */
+    browser?: BrowserProviderConfig | BrowserProvider;
+    /** Who decides agent actions (default the LLM); replay and rule-based run without an API key */
+    decisions?: DecisionProvider;
+    /** Model selection for the default decision provider (default from env) */
+    llm?: LLMClient;
+    store?: ExperimentStore;
+    /** Shared buckets for Anthropic calls and browser sessions (default from env) */
+    rateLimiters?: RateLimiters;
+    /** Retries for transient session failures (default 3 attempts, 2s base backoff) */
+    retry?: { maxAttempts?: number; baseDelayMs?: number };
   }) {
+    // A provider built from config belongs to this runner and is shut down after each run
+    const browser = config?.browser;
+    if (browser && !('createSession' in browser)) {
+      this.ownedBrowserProvider = createBrowserProvider(browser);
+    }
     this.agent = new BrowserAgent({
       anthropicApiKey: config?.anthropicApiKey,
       browserbaseApiKey: config?.browserbaseApiKey,
       browserbaseProjectId: config?.browserbaseProjectId,
+      browserProvider: this.ownedBrowserProvider || (browser as BrowserProvider | undefined),
+      decisionProvider: config?.decisions,
+      llm: config?.llm,
+      rateLimiters: config?.rateLimiters || createRateLimiters(),
     });
     this.maxConcurrent = config?.maxConcurrent || 3;
-    this.delayBetweenSessions = config?.delayBetweenSessions || 2000;
+    this.delayBetweenSessions = config?.delayBetweenSessions || 0;
+    this.maxAttempts = config?.retry?.maxAttempts || 3;
+    this.retryBaseDelayMs = config?.retry?.baseDelayMs || 2000;
+    this.store = config?.store;
   }
 
   /**
-   * Run a full experiment with multiple variants and personas
+   * Resume an interrupted experiment from the store. Sessions that already
+   * completed are kept and only the remainder of the budget is run. Results
+   * saved by a cancelled or budget-capped run are partial, so those runs
+   * continue too.
+   */
+  async resumeExperiment(
+    experimentId: string,
+    onProgress?: ProgressCallback,
+    control?: RunControl
+  ): Promise<ExperimentResults> {
+    if (!this.store) {
+      throw new Error('Resuming requires an experiment store');
+    }
+
+    const config = await this.store.getConfig(experimentId);
+    if (!config) {
+      throw new Error(`Experiment not found: ${experimentId}`);
+    }
+
+    const stored = await this.store.getResults(experimentId);
+    if (stored && !stored.cancelled && !stored.budgetExceeded) {
+      console.log(`[SwarmRunner] Experiment ${experimentId} already completed`);
+      return stored;
+    }
+
+    return this.runExperiment(config, onProgress, control);
+  }
+
+  /**
+   * Run a full experiment with multiple variants and personas.
+   * `control` can pause the run or cancel it; a cancelled run still
+   * analyzes the sessions that completed.
    */
   async runExperiment(
     config: ExperimentConfig,
-    onProgress?: ProgressCallback
+    onProgress?: ProgressCallback,
+    control?: RunControl
+  ): Promise<ExperimentResults> {
+    try {
+      return await this.executeExperiment(config, onProgress, control);
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : 'Unknown error';
+      await this.persist('status', async () => {
+        const last = await this.store!.getStatus(config.id);
+        await this.store!.saveStatus({
+          experimentId: config.id,
+          progress: 0,
+          completedSessions: 0,
+          totalSessions: config.sessionsPerVariant * config.variants.length,
+          sessionsByVariant: {},
+          ...last,
+          state: 'failed',
+          error: errMsg,
+        });
+      });
+      throw error;
+    } finally {
+      await this.ownedBrowserProvider?.dispose?.();
+    }
+  }
+
+  /**
+   * Run (or continue) an experiment, persisting as it goes
+   */
+  private async executeExperiment(
+    config: ExperimentConfig,
+    onProgress?: ProgressCallback,
+    runControl?: RunControl
   ): Promise<ExperimentResults> {
     const { variants, personas, sessionsPerVariant, conversionGoal, url } = config;
-    
-    // Create session queue: each variant gets sessionsPerVariant sessions
-    const sessionQueue: Array<{
-      variant: ExperimentVariant;
-      persona: Persona;
-    }> = [];
+    const totalSessions = sessionsPerVariant * variants.length;
 
-    for (const variant of variants) {
-      // Distribute personas evenly across sessions
-      for (let i = 0; i < sessionsPerVariant; i++) {
-        const persona = personas[i % personas.length];
-        sessionQueue.push({ variant, persona });
+    // Sessions already recorded for this ID come from an interrupted run
+    const previousStatus = this.store ? await this.store.getStatus(config.id) : null;
+    const completed = this.store ? await this.store.getSessions(config.id) : [];
+    await this.persist('config', () => this.store!.saveConfig(config));
+
+    // Personas rotate per variant so each variant sees the same mix
+    const assignedByVariant: Record<string, number> = {};
+    variants.forEach(v => assignedByVariant[v.id] = 0);
+    const enqueue = (queue: QueuedSession[], variant: ExperimentVariant, probability: number) => {
+      const persona = personas[assignedByVariant[variant.id]++ % personas.length];
+      queue.push({ variant, persona, assignmentProbability: probability });
+    };
+
+    // Create session queue. Fixed allocation queues the whole budget by
+    // traffic share; a bandit only queues an even burn-in and adapts later.
+    const sessionQueue: QueuedSession[] = [];
+    let allocation: Record<string, number>;
+    const assignmentRandom = mulberry32(config.bandit?.seed ?? hashString(config.id));
+
+    if (config.bandit) {
+      allocation = normalizeWeights(variants);
+      const burnIn = Math.min(
+        config.bandit.burnInSessionsPerVariant ?? 3,
+        Math.floor(totalSessions / variants.length)
+      );
+      for (const variant of variants) {
+        for (let i = 0; i < burnIn; i++) enqueue(sessionQueue, variant, allocation[variant.id]);
+      }
+    } else {
+      allocation = normalizeWeights(variants, config.trafficAllocation);
+      const counts = allocateSessions(allocation, totalSessions);
+      for (const variant of variants) {
+        for (let i = 0; i < counts[variant.id]; i++) enqueue(sessionQueue, variant, allocation[variant.id]);
       }
     }
 
     // Shuffle to randomize order
     this.shuffleArray(sessionQueue);
 
-    const totalSessions = sessionQueue.length;
-    const sessions: AgentSession[] = [];
+    // Drop queued work that a previous run already finished
+    for (const session of completed) {
+      this.removeQueuedSession(sessionQueue, session);
+    }
+    if (completed.length > 0) {
+      console.log(`[SwarmRunner] Resuming ${config.id} with ${completed.length}/${totalSessions} sessions done`);
+    }
+
+    const sessions: AgentSession[] = [...completed];
     const sessionsByVariant: Record<string, number> = {};
     variants.forEach(v => sessionsByVariant[v.id] = 0);
+    sessions.forEach(s => sessionsByVariant[s.variantId]++);
 
     const status: ExperimentStatus = {
       experimentId: config.id,
       state: 'running',
-      progress: 0,
-      completedSessions: 0,
+      progress: (sessions.length / totalSessions) * 100,
+      completedSessions: sessions.length,
       totalSessions,
-      sessionsByVariant,
+      sessionsByVariant: { ...sessionsByVariant },
+      allocation: { ...allocation },
+      resumedSessions: completed.length || undefined,
+      costUsd: addUsage(sumUsage(sessions), config.setupUsage).totalCostUsd,
     };
+    if (config.budgetUsd !== undefined && status.costUsd! >= config.budgetUsd) {
+      status.budgetExceeded = true;
+    }
 
-    onProgress?.(status);
+    await this.report(status, onProgress);
+
+    // Sequential testing needs a control to look at interim results against
+    const control = variants.find(v => v.isControl);
+    const sequentialState: SequentialState = {
+      alphaSpent: previousStatus?.alphaSpent ?? 0,
+      looks: previousStatus?.interimLooks ?? 0,
+    };
+    const significanceLevel = config.significanceLevel ?? 0.05;
+    let decisionAlpha = significanceLevel;
+
+    // Early stops and cancellation both abort in-flight sessions
+    const stop = new AbortController();
+    const onCancel = () => stop.abort(runControl?.signal.reason);
+    runControl?.signal.addEventListener('abort', onCancel, { once: true });
 
-    // Process sessions with concurrency limit
     const startTime = Date.now();
-    
-    // Process in batches
-    for (let i = 0; i < sessionQueue.length; i += this.maxConcurrent) {
-      const batch = sessionQueue.slice(i, i + this.maxConcurrent);
-      
-      const batchPromises = batch.map(async ({ variant, persona }) => {
+    let dispatched = sessions.length;
+    let completedThisRun = 0;
+    let completedSinceLook = 0;
+    let lastStartAt = 0;
+
+    // Heatmaps need one landing-page screenshot per variant and device
+    const captured = new Set(
+      completed.filter(s => s.landingPage).map(s => `${s.variantId}:${s.persona.demographics.device}`)
+    );
+
+    /** Run one queued session, retrying transient failures; null if it was cut short */
+    const runSession = async ({ variant, persona, assignmentProbability }: QueuedSession) => {
+      const captureKey = `${variant.id}:${persona.demographics.device}`;
+      const captureLandingPage = !captured.has(captureKey);
+      captured.add(captureKey);
+
+      // Retried attempts still cost money, so their usage is carried over
+      let carriedUsage = emptyUsage();
+      for (let attempt = 1; ; attempt++) {
+        let session: AgentSession;
         try {
-          const session = await this.agent.run({
+          session = await this.agent.run({
             url,
             persona,
             variantId: variant.id,
@@ -103,53 +327,224 @@ export class SwarmRunner {
               js: variant.js,
             },
             conversionGoal,
+            perception: config.perception,
+            recording: config.recording,
+            captureLandingPage,
             maxDurationSec: 60,
+            signal: stop.signal,
           });
-          
-          return session;
         } catch (error) {
+          if (stop.signal.aborted) return null;
           console.error(`[SwarmRunner] Session error:`, error);
-          // Return a failed session
-          return this.createFailedSession(variant.id, persona, url, error);
+          session = this.createFailedSession(variant.id, persona, url, error);
         }
-      });
 
-      const batchResults = await Promise.all(batchPromises);
-      
-      // Add results and update progress
-      for (const session of batchResults) {
-        sessions.push(session);
-        sessionsByVariant[session.variantId]++;
-        
-        status.completedSessions = sessions.length;
-        status.progress = (sessions.length / totalSessions) * 100;
-        status.sessionsByVariant = { ...sessionsByVariant };
-        
-        // Estimate remaining time
-        const elapsed = Date.now() - startTime;
-        const avgTimePerSession = elapsed / sessions.length;
-        status.estimatedTimeRemaining = Math.ceil(
-          (totalSessions - sessions.length) * avgTimePerSession / 1000
+        // Cut-short sessions are dropped so a resumed run repeats them
+        if (session.cancelled || stop.signal.aborted) return null;
+
+        if (session.failure?.retryable && attempt < this.maxAttempts) {
+          const wait = backoffDelay(attempt, this.retryBaseDelayMs);
+          console.log(
+            `[SwarmRunner] ${session.failure.kind} failure on ${variant.id} (${session.failure.message}); ` +
+            `retry ${attempt + 1}/${this.maxAttempts} in ${wait}ms`
+          );
+          carriedUsage = addUsage(carriedUsage, session.metrics.usage);
+          await this.delay(wait, stop.signal);
+          if (stop.signal.aborted) return null;
+          continue;
+        }
+
+        if (session.failure) session.failure.attempts = attempt;
+        session.metrics.usage = addUsage(carriedUsage, session.metrics.usage);
+        // Let a later session on this device try the screenshot again
+        if (captureLandingPage && !session.landingPage) captured.delete(captureKey);
+        return { ...session, assignmentProbability };
+      }
+    };
+
+    /** Record a finished session, then take an interim look if one is due */
+    const recordSession = async (finished: AgentSession | null) => {
+      if (!finished || status.stoppedEarly) return;
+
+      // Recordings are large, so they are stored apart from the session log
+      let session = finished;
+      if (session.recording && this.store) {
+        const { recording, ...rest } = session;
+        let recorded = false;
+        await this.persist('recording', async () => {
+          await this.store!.saveRecording(config.id, recording);
+          recorded = true;
+        });
+        session = { ...rest, recorded: recorded || undefined };
+      }
+
+      await this.persist('session', () => this.store!.appendSession(config.id, session));
+      sessions.push(session);
+      sessionsByVariant[session.variantId]++;
+      completedThisRun++;
+      completedSinceLook++;
+
+      status.completedSessions = sessions.length;
+      status.progress = (sessions.length / totalSessions) * 100;
+      status.sessionsByVariant = { ...sessionsByVariant };
+      status.costUsd = (status.costUsd ?? 0) + (session.metrics.usage?.totalCostUsd ?? 0);
+
+      // Over budget: start nothing new and let in-flight sessions finish
+      if (config.budgetUsd !== undefined && status.costUsd >= config.budgetUsd && !status.budgetExceeded) {
+        console.log(
+          `[SwarmRunner] Budget of $${config.budgetUsd.toFixed(2)} reached ` +
+          `($${status.costUsd.toFixed(2)} spent); no new sessions for ${config.id}`
         );
-        
-        onProgress?.(status);
+        status.budgetExceeded = true;
+      }
+
+      // Estimate remaining time from throughput so far
+      const elapsed = Date.now() - startTime;
+      const avgTimePerSession = elapsed / completedThisRun;
+      status.estimatedTimeRemaining = Math.ceil(
+        (totalSessions - sessions.length) * avgTimePerSession / 1000
+      );
+
+      await this.report(status, onProgress);
+
+      // Interim look every maxConcurrent completions; stop early on a clear result
+      if (
+        config.sequential && control &&
+        completedSinceLook >= this.maxConcurrent && sessions.length < totalSessions
+      ) {
+        completedSinceLook = 0;
+        const earlyStop = evaluateInterim({
+          arms: this.countConversions(this.analyzedSessions(config, sessions), variants, !!config.bandit),
+          controlId: control.id,
+          plannedSessions: totalSessions,
+          significanceLevel,
+          correction: config.multipleComparisonCorrection ?? 'holm',
+          config: config.sequential,
+          state: sequentialState,
+        });
+        status.alphaSpent = sequentialState.alphaSpent;
+        status.interimLooks = sequentialState.looks;
+
+        if (earlyStop) {
+          console.log(`[SwarmRunner] Stopping early (${earlyStop.reason}): ${earlyStop.message}`);
+          status.stoppedEarly = earlyStop;
+          status.estimatedTimeRemaining = 0;
+          // Report against the alpha spent so far, not this look's increment
+          decisionAlpha = earlyStop.alphaSpent;
+          stop.abort('Stopped early');
+        }
+        await this.report(status, onProgress);
       }
+    };
+
+    // Keep the stored status fresh while sessions run, so other processes
+    // can tell this run is alive (see isStaleStatus)
+    const heartbeat = setInterval(() => {
+      void this.report(status);
+    }, HEARTBEAT_MS);
+
+    try {
+      // Worker pool: start a session whenever a slot frees up
+      const inFlight = new Set<Promise<void>>();
+      while (dispatched < totalSessions && !stop.signal.aborted && !status.budgetExceeded) {
+        if (inFlight.size >= this.maxConcurrent) {
+          await Promise.race(inFlight);
+          continue;
+        }
+
+        // Hold back new sessions while paused; running ones carry on
+        if (runControl?.state === 'paused') {
+          console.log(`[SwarmRunner] Paused ${config.id}`);
+          status.state = 'paused';
+          await this.report(status, onProgress);
+          await runControl.waitWhilePaused();
+          if (!runControl.signal.aborted) {
+            console.log(`[SwarmRunner] Resumed ${config.id}`);
+            status.state = 'running';
+            await this.report(status, onProgress);
+          }
+          continue;
+        }
+
+        // Bandit: assign the next session from the evidence so far
+        if (sessionQueue.length === 0 && config.bandit) {
+          allocation = thompsonProbabilities(
+            this.countConversions(this.analyzedSessions(config, sessions), variants),
+            config.bandit,
+            assignmentRandom
+          );
+          status.allocation = { ...allocation };
+          const variantId = sampleVariant(allocation, assignmentRandom);
+          enqueue(sessionQueue, variants.find(v => v.id === variantId)!, allocation[variantId]);
+        }
+
+        const next = sessionQueue.shift();
+        if (!next) break;
+
+        // Optional spacing between session starts
+        const wait = lastStartAt + this.delayBetweenSessions - Date.now();
+        if (wait > 0) {
+          await this.delay(wait, stop.signal);
+          if (stop.signal.aborted) break;
+        }
+        lastStartAt = Date.now();
+        dispatched++;
 
-      // Delay between batches to avoid rate limits
-      if (i + this.maxConcurrent < sessionQueue.length) {
-        await this.delay(this.delayBetweenSessions);
+        const task: Promise<void> = runSession(next)
+          .then(recordSession)
+          .finally(() => inFlight.delete(task));
+        inFlight.add(task);
       }
+
+      // Let in-flight sessions finish (or wind down, if stopping)
+      await Promise.all(inFlight);
+    } finally {
+      clearInterval(heartbeat);
+    }
+    runControl?.signal.removeEventListener('abort', onCancel);
+
+    const cancelled = runControl?.signal.aborted ?? false;
+    if (cancelled) {
+      console.log(`[SwarmRunner] Cancelled ${config.id} after ${sessions.length}/${totalSessions} sessions`);
+      status.estimatedTimeRemaining = 0;
     }
 
     // Analyze results
     status.state = 'analyzing';
-    onProgress?.(status);
+    await this.report(status, onProgress);
 
-    const results = this.analyzeResults(config.id, sessions, variants);
+    // Alpha already spent at interim looks is unavailable to the final analysis
+    if (config.sequential && !status.stoppedEarly && sequentialState.looks > 0) {
+      decisionAlpha = significanceLevel - sequentialState.alphaSpent;
+    }
 
-    status.state = 'completed';
-    status.progress = 100;
-    onProgress?.(status);
+    const results = this.analyzeResults(config, sessions, decisionAlpha);
+    if (status.stoppedEarly) {
+      results.stoppedEarly = status.stoppedEarly;
+      results.insights.unshift(
+        `Stopped early for ${status.stoppedEarly.reason} after ${sessions.length}/${totalSessions} sessions: ` +
+        status.stoppedEarly.message
+      );
+    }
+    if (status.budgetExceeded) {
+      results.budgetExceeded = true;
+      results.insights.unshift(
+        `Budget of $${config.budgetUsd!.toFixed(2)} reached after ${sessions.length}/${totalSessions} sessions ` +
+        `($${results.usage.totalCostUsd.toFixed(2)} spent); results are partial and may be underpowered.`
+      );
+    }
+    if (cancelled) {
+      results.cancelled = true;
+      results.insights.unshift(
+        `Cancelled after ${sessions.length}/${totalSessions} sessions; results are partial and may be underpowered.`
+      );
+    }
+
+    await this.persist('results', () => this.store!.saveResults(results));
+
+    status.state = cancelled ? 'cancelled' : 'completed';
+    if (!cancelled) status.progress = 100;
+    await this.report(status, onProgress);
 
     return results;
   }
@@ -161,7 +556,7 @@ export class SwarmRunner {
     url: string,
     persona: Persona,
     variantId: string,
-    conversionGoal: { type: 'click' | 'submit' | 'navigate' | 'custom'; target: string; description: string },
+    conversionGoal: ConversionGoal,
     changes?: { css?: string; js?: string }
   ): Promise<AgentSession> {
     return this.agent.run({
@@ -178,24 +573,36 @@ export class SwarmRunner {
    * Analyze session results
    */
   private analyzeResults(
-    experimentId: string,
+    config: ExperimentConfig,
     sessions: AgentSession[],
-    variants: ExperimentVariant[]
+    decisionAlpha = config.significanceLevel ?? 0.05
   ): ExperimentResults {
+    const { variants, multipleComparisonCorrection = 'holm' } = config;
     const variantResults: Record<string, VariantResult> = {};
+    const weighted: Record<string, ArmCounts> = {};
+    const confidenceLevel = 1 - (config.significanceLevel ?? 0.05);
+
+    // Infrastructure failures say nothing about the variant, so leave them out
+    const analyzed = this.analyzedSessions(config, sessions);
 
     // Calculate metrics for each variant
     for (const variant of variants) {
-      const variantSessions = sessions.filter(s => s.variantId === variant.id);
+      const allVariantSessions = sessions.filter(s => s.variantId === variant.id);
+      const variantSessions = analyzed.filter(s => s.variantId === variant.id);
+      const failureCounts = this.countFailures(allVariantSessions, variantSessions.length);
       
       if (variantSessions.length === 0) {
-        variantResults[variant.id] = this.createEmptyVariantResult(variant.id);
+        variantResults[variant.id] = {
+          ...this.createEmptyVariantResult(variant.id, confidenceLevel),
+          ...failureCounts,
+          usage: sumUsage(allVariantSessions),
+        };
         continue;
       }
 
       const conversions = variantSessions.filter(s => s.converted).length;
-      const totalTime = variantSessions.reduce((sum, s) => sum + s.metrics.timeOnPage, 0);
-      const totalScroll = variantSessions.reduce((sum, s) => sum + s.metrics.scrollDepthPercent, 0);
+      const timeOnPage = summarize(variantSessions.map(s => s.metrics.timeOnPage));
+      const scrollDepth = summarize(variantSessions.map(s => s.metrics.scrollDepthPercent));
       const totalClicks = variantSessions.reduce((sum, s) => sum + s.metrics.clickCount, 0);
       const bounces = variantSessions.filter(s => s.metrics.timeOnPage < 5000).length;
 
@@ -213,13 +620,31 @@ export class SwarmRunner {
         triggerCounts[trigger] = (triggerCounts[trigger] || 0) + 1;
       });
 
+      // Adaptive allocation biases raw counts, so a bandit's intervals and
+      // tests use inverse-propensity-weighted ones
+      const counts = config.bandit
+        ? (weighted[variant.id] = weightedCounts(variant.id, variantSessions))
+        : { variantId: variant.id, conversions, sessions: variantSessions.length };
+
       variantResults[variant.id] = {
         variantId: variant.id,
         sessions: variantSessions.length,
+        ...failureCounts,
+        usage: sumUsage(allVariantSessions),
         conversions,
         conversionRate: (conversions / variantSessions.length) * 100,
-        avgTimeOnPage: totalTime / variantSessions.length,
-        avgScrollDepth: totalScroll / variantSessions.length,
+        conversionRateCI: this.toPercentInterval(
+          wilsonInterval(counts.conversions, counts.sessions, confidenceLevel)
+        ),
+        weightedConversionRate: config.bandit
+          ? this.calculateWeightedConversionRate(variantSessions)
+          : undefined,
+        pValue: null,
+        adjustedPValue: null,
+        avgTimeOnPage: timeOnPage.mean,
+        timeOnPageStdDev: timeOnPage.stdDev,
+        avgScrollDepth: scrollDepth.mean,
+        scrollDepthStdDev: scrollDepth.stdDev,
         avgClicks: totalClicks / variantSessions.length,
         bounceRate: (bounces / variantSessions.length) * 100,
         topExitReasons: Object.entries(exitReasonCounts)
@@ -231,28 +656,102 @@ export class SwarmRunner {
           .slice(0, 5)
           .map(([trigger, count]) => ({ trigger, count })),
         engagementScore: this.calculateEngagementScore(variantSessions),
+        formFunnel: summarizeFormFunnel(variantSessions),
+        funnel: summarizeFunnel(config.conversionGoal, variantSessions),
+        heatmaps: summarizeHeatmaps(variantSessions),
+        scrollReach: summarizeScrollReach(variantSessions),
+        attention: summarizeAttention(variantSessions),
+      };
+    }
+
+    // Winner, comparisons and the Bayesian read-out see the weighted counts
+    const inferenceResults: Record<string, VariantResult> = { ...variantResults };
+    for (const [variantId, counts] of Object.entries(weighted)) {
+      inferenceResults[variantId] = {
+        ...variantResults[variantId],
+        conversions: counts.conversions,
+        sessions: counts.sessions,
+        conversionRate: variantResults[variantId].weightedConversionRate!,
       };
     }
 
     // Determine winner
-    const { winner, confidence, isSignificant } = this.determineWinner(variantResults, variants);
+    const { winner, baseline, pValue, adjustedPValue, isSignificant, comparisons } = 
+      this.determineWinner(
+        inferenceResults, variants, decisionAlpha, multipleComparisonCorrection, confidenceLevel
+      );
+
+    for (const comparison of Object.values(comparisons)) {
+      variantResults[comparison.variantId].pValue = comparison.conversion.pValue;
+      variantResults[comparison.variantId].adjustedPValue = comparison.adjustedPValue;
+    }
+
+    // Optional Bayesian read-out against the control
+    const bayesian = config.analysisMode === 'bayesian'
+      ? analyzeBayesian(
+          Object.values(inferenceResults),
+          variants.find(v => v.isControl)?.id ?? null,
+          { prior: config.bayesianPrior, credibleLevel: confidenceLevel }
+        )
+      : undefined;
 
     // Generate insights
-    const insights = this.generateInsights(variantResults, variants, sessions);
-    const recommendations = this.generateRecommendations(variantResults, winner, isSignificant);
+    const insights = this.generateInsights(variantResults, variants, analyzed);
+    const excludedCount = sessions.length - analyzed.length;
+    if (excludedCount > 0) {
+      insights.push(
+        `${excludedCount} failed session${excludedCount === 1 ? '' : 's'} ` +
+        `(${(config.excludeFailures ?? ['infrastructure']).join(', ')}) excluded from the analysis`
+      );
+    }
+    if (config.bandit) {
+      insights.push(
+        'Traffic was allocated adaptively, so significance tests, intervals and the winner use ' +
+        'inverse-propensity-weighted conversion rates over effective sample sizes'
+      );
+    }
+    if (bayesian) {
+      insights.push(...this.generateBayesianInsights(bayesian));
+    }
+    const recommendations = this.generateRecommendations(
+      variantResults, winner, isSignificant, pValue, decisionAlpha, multipleComparisonCorrection
+    );
 
     return {
-      experimentId,
+      experimentId: config.id,
       sessions,
       variantResults,
       winner,
-      confidence,
+      baseline,
+      pValue,
+      adjustedPValue,
+      significanceLevel: decisionAlpha,
+      multipleComparisonCorrection,
       isSignificant,
+      comparisons,
+      bayesian,
+      usage: addUsage(sumUsage(sessions), config.setupUsage),
       insights,
       recommendations,
     };
   }
 
+  /**
+   * Inverse-propensity-weighted (Hajek) conversion rate (0-100).
+   * Sessions assigned with low probability count for more, undoing the
+   * over-sampling of early leaders under adaptive allocation.
+   */
+  private calculateWeightedConversionRate(sessions: AgentSession[]): number {
+    let weightedConversions = 0;
+    let totalWeight = 0;
+    for (const session of sessions) {
+      const weight = 1 / (session.assignmentProbability || 1);
+      totalWeight += weight;
+      if (session.converted) weightedConversions += weight;
+    }
+    return totalWeight > 0 ? (weightedConversions / totalWeight) * 100 : 0;
+  }
+
   /**
    * Calculate engagement score (0-100)
    */
@@ -276,79 +775,189 @@ export class SwarmRunner {
   }
 
   /**
-   * Determine the winning variant
+   * Determine the winning variant.
+   * 
+   * Every variant is compared against the baseline: the control, or the
+   * runner-up by conversion rate when the experiment has no control. The
+   * p-values of all comparisons are corrected together, so adding variants
+   * does not inflate the chance of a false winner.
    */
   private determineWinner(
     results: Record<string, VariantResult>,
-    variants: ExperimentVariant[]
-  ): { winner: string | null; confidence: number; isSignificant: boolean } {
-    const control = variants.find(v => v.isControl);
-    if (!control) {
-      // No control - find highest converting
-      const sorted = Object.values(results).sort((a, b) => b.conversionRate - a.conversionRate);
-      if (sorted.length === 0) return { winner: null, confidence: 0, isSignificant: false };
-      
-      const best = sorted[0];
-      const second = sorted[1];
-      
-      if (!second || best.conversionRate === second.conversionRate) {
-        return { winner: best.variantId, confidence: 50, isSignificant: false };
-      }
+    variants: ExperimentVariant[],
+    significanceLevel: number,
+    correction: MultipleComparisonCorrection,
+    confidenceLevel: number
+  ): {
+    winner: string | null;
+    baseline: string | null;
+    pValue: number | null;
+    adjustedPValue: number | null;
+    isSignificant: boolean;
+    comparisons: Record<string, VariantComparison>;
+  } {
+    const ranked = variants
+      .map(v => results[v.id])
+      .filter((r): r is VariantResult => !!r)
+      .sort((a, b) => b.conversionRate - a.conversionRate);
 
-      const confidence = this.calculateConfidence(best, second);
+    if (ranked.length === 0) {
       return {
-        winner: best.variantId,
-        confidence,
-        isSignificant: confidence >= 95,
+        winner: null,
+        baseline: null,
+        pValue: null,
+        adjustedPValue: null,
+        isSignificant: false,
+        comparisons: {},
       };
     }
 
-    // Compare variants to control
-    const controlResult = results[control.id];
-    if (!controlResult) return { winner: null, confidence: 0, isSignificant: false };
+    const control = variants.find(v => v.isControl);
+    const baselineResult = control ? results[control.id] : ranked[1];
+    if (!baselineResult) {
+      return {
+        winner: control ? null : ranked[0].variantId,
+        baseline: null,
+        pValue: null,
+        adjustedPValue: null,
+        isSignificant: false,
+        comparisons: {},
+      };
+    }
 
-    let bestVariant: VariantResult | null = null;
-    let bestLift = 0;
+    const comparisons: Record<string, VariantComparison> = {};
+    for (const result of ranked) {
+      if (result.variantId === baselineResult.variantId) continue;
+      comparisons[result.variantId] = this.compareVariants(result, baselineResult, confidenceLevel);
+    }
 
-    for (const variant of variants) {
-      if (variant.isControl) continue;
-      
-      const result = results[variant.id];
-      if (!result) continue;
+    // Correct across the whole family of variant-vs-baseline comparisons
+    const family = Object.values(comparisons);
+    const adjusted = adjustPValues(family.map(c => c.conversion.pValue), correction);
+    family.forEach((comparison, i) => {
+      comparison.adjustedPValue = adjusted[i];
+      comparison.isSignificant = adjusted[i] < significanceLevel;
+    });
 
-      const lift = result.conversionRate - controlResult.conversionRate;
-      if (lift > bestLift) {
-        bestLift = lift;
-        bestVariant = result;
-      }
+    // Highest-converting variant other than the baseline
+    const best = ranked.find(r => r.variantId !== baselineResult.variantId);
+    if (!best || (control && best.conversionRate <= baselineResult.conversionRate)) {
+      return {
+        winner: baselineResult.variantId,
+        baseline: null,
+        pValue: null,
+        adjustedPValue: null,
+        isSignificant: false,
+        comparisons,
+      };
     }
 
-    if (!bestVariant || bestLift <= 0) {
-      return { winner: control.id, confidence: 50, isSignificant: false };
-    }
+    const comparison = comparisons[best.variantId];
+    return {
+      winner: best.variantId,
+      baseline: baselineResult.variantId,
+      pValue: comparison.conversion.pValue,
+      adjustedPValue: comparison.adjustedPValue,
+      isSignificant: comparison.isSignificant,
+      comparisons,
+    };
+  }
+
+  /**
+   * Compare a variant against a baseline on conversion, time and scroll.
+   * Significance here is uncorrected; determineWinner adjusts it.
+   */
+  private compareVariants(
+    variant: VariantResult,
+    baseline: VariantResult,
+    confidenceLevel: number
+  ): VariantComparison {
+    const conversion = compareProportions(
+      variant.conversions, variant.sessions,
+      baseline.conversions, baseline.sessions
+    );
+    const lift = proportionLift(
+      variant.conversions, variant.sessions,
+      baseline.conversions, baseline.sessions,
+      confidenceLevel
+    );
 
-    const confidence = this.calculateConfidence(bestVariant, controlResult);
     return {
-      winner: bestVariant.variantId,
-      confidence,
-      isSignificant: confidence >= 95,
+      variantId: variant.variantId,
+      baselineId: baseline.variantId,
+      conversion,
+      adjustedPValue: conversion.pValue,
+      lift: {
+        absolute: lift.absolute * 100,
+        absoluteCI: this.toPercentInterval(lift.absoluteCI),
+        relative: lift.relative !== null ? lift.relative * 100 : null,
+        relativeCI: lift.relativeCI ? this.toPercentInterval(lift.relativeCI) : null,
+      },
+      timeOnPage: welchTTest(
+        { mean: variant.avgTimeOnPage, stdDev: variant.timeOnPageStdDev, n: variant.sessions },
+        { mean: baseline.avgTimeOnPage, stdDev: baseline.timeOnPageStdDev, n: baseline.sessions },
+        confidenceLevel
+      ),
+      scrollDepth: welchTTest(
+        { mean: variant.avgScrollDepth, stdDev: variant.scrollDepthStdDev, n: variant.sessions },
+        { mean: baseline.avgScrollDepth, stdDev: baseline.scrollDepthStdDev, n: baseline.sessions },
+        confidenceLevel
+      ),
+      isSignificant: conversion.pValue < 1 - confidenceLevel,
     };
   }
 
   /**
-   * Calculate statistical confidence (simplified)
+   * Sessions that count toward the analysis (drops excluded failure kinds)
    */
-  private calculateConfidence(a: VariantResult, b: VariantResult): number {
-    // Simplified confidence based on sample size and effect size
-    const totalSamples = a.sessions + b.sessions;
-    const effectSize = Math.abs(a.conversionRate - b.conversionRate);
-    
-    // More samples + bigger effect = higher confidence
-    const sampleFactor = Math.min(1, totalSamples / 100);
-    const effectFactor = Math.min(1, effectSize / 20);
-    
-    const rawConfidence = 50 + (sampleFactor * 25) + (effectFactor * 25);
-    return Math.min(99, Math.round(rawConfidence));
+  private analyzedSessions(config: ExperimentConfig, sessions: AgentSession[]): AgentSession[] {
+    const excluded = new Set<FailureKind>(config.excludeFailures ?? ['infrastructure']);
+    return sessions.filter(s => !s.failure || !excluded.has(s.failure.kind));
+  }
+
+  /**
+   * Failure counts for one variant's sessions
+   */
+  private countFailures(
+    variantSessions: AgentSession[],
+    analyzedCount: number
+  ): Pick<VariantResult, 'failedSessions' | 'excludedSessions' | 'failuresByKind'> {
+    const failuresByKind: Record<FailureKind, number> = { infrastructure: 0, page: 0, 'agent-parse': 0 };
+    variantSessions.forEach(s => {
+      if (s.failure) failuresByKind[s.failure.kind]++;
+    });
+    return {
+      failedSessions: variantSessions.filter(s => s.failure).length,
+      excludedSessions: variantSessions.length - analyzedCount,
+      failuresByKind,
+    };
+  }
+
+  /**
+   * Count conversions per variant for interim analysis; `weighted` gives
+   * the inverse-propensity-weighted counts the final analysis uses
+   */
+  private countConversions(
+    sessions: AgentSession[],
+    variants: ExperimentVariant[],
+    weighted = false
+  ): ArmCounts[] {
+    return variants.map(variant => {
+      const variantSessions = sessions.filter(s => s.variantId === variant.id);
+      if (weighted) return weightedCounts(variant.id, variantSessions);
+      return {
+        variantId: variant.id,
+        conversions: variantSessions.filter(s => s.converted).length,
+        sessions: variantSessions.length,
+      };
+    });
+  }
+
+  /**
+   * Convert a fractional interval to percentages
+   */
+  private toPercentInterval(ci: ConfidenceInterval): ConfidenceInterval {
+    return { lower: ci.lower * 100, upper: ci.upper * 100, level: ci.level };
   }
 
   /**
@@ -395,6 +1004,59 @@ export class SwarmRunner {
       );
     }
 
+    // Journey drop-off: the step that loses the most people
+    for (const result of Object.values(results)) {
+      const worst = result.funnel?.reduce<FunnelStepResult | undefined>(
+        (max, step) => step.dropOff > (max?.dropOff ?? 0) ? step : max,
+        undefined
+      );
+      if (worst) {
+        insights.push(
+          `${result.variantId}: biggest funnel drop-off is at "${worst.step}" ` +
+          `(${worst.dropOff.toFixed(0)}% of those at the previous step never reached it)`
+        );
+      }
+    }
+
+    // Form friction: where people give up on the form
+    for (const result of Object.values(results)) {
+      const funnel = result.formFunnel;
+      const dropOff = funnel?.fields.reduce<typeof funnel.fields[number] | undefined>(
+        (worst, step) => step.abandonedHere > (worst?.abandonedHere ?? 0) ? step : worst,
+        undefined
+      );
+      if (funnel && dropOff) {
+        insights.push(
+          `${result.variantId}: ${funnel.submitted} of ${funnel.started} users who started the form submitted it; ` +
+          `most who gave up stopped at "${dropOff.field}" (${dropOff.abandonedHere})`
+        );
+      }
+    }
+
+    // Scroll reach: content below the halfway mark that most never saw
+    for (const result of Object.values(results)) {
+      const halfway = result.scrollReach?.find(p => p.depthPercent === 50);
+      if (halfway && halfway.reached < 50) {
+        insights.push(
+          `${result.variantId}: only ${halfway.reached.toFixed(0)}% of users scrolled halfway down the page - ` +
+          `move key content and calls to action higher`
+        );
+      }
+    }
+
+    // Attention: a section most readers only skimmed
+    for (const result of Object.values(results)) {
+      const skimmed = result.attention
+        ?.filter(s => s.sessions >= 3 && s.skimmed / s.sessions > 0.6)
+        .sort((a, b) => b.skimmed / b.sessions - a.skimmed / a.sessions)[0];
+      if (skimmed) {
+        insights.push(
+          `${result.variantId}: "${skimmed.section}" was skimmed in ${skimmed.skimmed} of ${skimmed.sessions} sessions ` +
+          `that reached it - consider tightening the copy`
+        );
+      }
+    }
+
     // Persona-based insights
     const frustratedSessions = sessions.filter(s => s.impression === 'negative');
     if (frustratedSessions.length > sessions.length * 0.3) {
@@ -410,18 +1072,57 @@ export class SwarmRunner {
     return insights;
   }
 
+  /**
+   * Generate insights from the Bayesian read-out
+   */
+  private generateBayesianInsights(bayesian: BayesianResults): string[] {
+    const insights: string[] = [];
+
+    const ranked = Object.values(bayesian.variants)
+      .sort((a, b) => b.probabilityToBeBest - a.probabilityToBeBest);
+    const leader = ranked[0];
+    if (leader) {
+      insights.push(
+        `${leader.variantId} has a ${leader.probabilityToBeBest.toFixed(0)}% chance of being the best variant ` +
+        `(expected loss ${leader.expectedLoss.toFixed(2)}pp)`
+      );
+    }
+
+    for (const result of ranked) {
+      if (result.probabilityToBeatBaseline === null || !result.liftCredibleInterval) continue;
+      const ci = result.liftCredibleInterval;
+      insights.push(
+        `${result.variantId} beats ${bayesian.baselineId} with ${result.probabilityToBeatBaseline.toFixed(0)}% probability ` +
+        `(lift ${(ci.level * 100).toFixed(0)}% credible interval: ${ci.lower.toFixed(0)}% to ${ci.upper.toFixed(0)}%)`
+      );
+    }
+
+    return insights;
+  }
+
   /**
    * Generate recommendations
    */
   private generateRecommendations(
     results: Record<string, VariantResult>,
     winner: string | null,
-    isSignificant: boolean
+    isSignificant: boolean,
+    pValue: number | null,
+    significanceLevel: number,
+    correction: MultipleComparisonCorrection
   ): string[] {
     const recommendations: string[] = [];
+    const variantCount = Object.keys(results).length;
 
     if (winner && isSignificant) {
-      recommendations.push(`Implement ${winner} - it shows statistically significant improvement`);
+      recommendations.push(
+        `Implement ${winner} - it shows statistically significant improvement (p = ${pValue?.toFixed(3)})`
+      );
+    } else if (winner && pValue !== null && pValue < significanceLevel && correction !== 'none' && variantCount > 2) {
+      recommendations.push(
+        `${winner} looks better (p = ${pValue.toFixed(3)}) but does not survive ${correction} correction ` +
+        `across ${variantCount - 1} comparisons. Run more sessions or test fewer variants.`
+      );
     } else if (winner) {
       recommendations.push(
         `${winner} looks promising but more data needed for confidence. Run longer or with more sessions.`
@@ -446,14 +1147,23 @@ export class SwarmRunner {
   /**
    * Create an empty variant result
    */
-  private createEmptyVariantResult(variantId: string): VariantResult {
+  private createEmptyVariantResult(variantId: string, confidenceLevel: number): VariantResult {
     return {
       variantId,
       sessions: 0,
+      failedSessions: 0,
+      excludedSessions: 0,
+      failuresByKind: { infrastructure: 0, page: 0, 'agent-parse': 0 },
+      usage: emptyUsage(),
       conversions: 0,
       conversionRate: 0,
+      conversionRateCI: { lower: 0, upper: 100, level: confidenceLevel },
+      pValue: null,
+      adjustedPValue: null,
       avgTimeOnPage: 0,
+      timeOnPageStdDev: 0,
       avgScrollDepth: 0,
+      scrollDepthStdDev: 0,
       avgClicks: 0,
       bounceRate: 0,
       topExitReasons: [],
@@ -492,13 +1202,46 @@ export class SwarmRunner {
       },
       converted: false,
       exitReason: `Error: ${errMsg}`,
-      impression: 'negative',
       startedAt: Date.now(),
       endedAt: Date.now(),
       errors: [errMsg],
+      // The agent handles page and model errors itself; anything escaping it is infrastructure
+      failure: classifyFailure(error, 'setup'),
     };
   }
 
+  /**
+   * Remove the queued session a completed one corresponds to, preferring
+   * the same variant and persona
+   */
+  private removeQueuedSession(queue: QueuedSession[], session: AgentSession): void {
+    let index = queue.findIndex(q => q.variant.id === session.variantId && q.persona.id === session.persona.id);
+    if (index < 0) index = queue.findIndex(q => q.variant.id === session.variantId);
+    if (index >= 0) queue.splice(index, 1);
+  }
+
+  /**
+   * Persist the latest status and notify the listener
+   */
+  private async report(status: ExperimentStatus, onProgress?: ProgressCallback): Promise<void> {
+    status.updatedAt = Date.now();
+    await this.persist('status', () => this.store!.saveStatus(status));
+    onProgress?.(status);
+  }
+
+  /**
+   * Write to the store if one is configured. Storage errors are logged
+   * rather than thrown so a full disk doesn't abort a running experiment.
+   */
+  private async persist(what: string, write: () => Promise<void>): Promise<void> {
+    if (!this.store) return;
+    try {
+      await write();
+    } catch (error) {
+      console.error(`[SwarmRunner] Failed to persist ${what}:`, error);
+    }
+  }
+
   /**
    * Shuffle array in place
    */
@@ -510,9 +1253,19 @@ export class SwarmRunner {
   }
 
   /**
-   * Delay helper
+   * Delay helper (returns early if `signal` aborts)
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
@@ -33,6 +33,9 @@ export interface AgentAction {
   /** Additional details */
   details?: string;
   
+  /** Text entered (type actions; omitted for passwords) */
+  value?: string;
+  
   /** Timestamp */
   timestamp: number;
   
@@ -43,6 +46,169 @@ export interface AgentAction {
   reasoning?: string;
 }
 
+/**
+ * Snapshot of visible page elements for decision making
+ */
+export interface PageSnapshot {
+  /** Current URL */
+  url: string;
+  
+  /** Document title */
+  title: string;
+  
+  /** First h1-h3 headings */
+  headings: string[];
+  
+  /** Buttons on the page */
+  buttons: Array<{ text: string; selector: string }>;
+  
+  /** Links on the page */
+  links: Array<{ text: string; href: string; selector: string }>;
+  
+  /** Forms on the page */
+  forms: FormSnapshot[];
+  
+  /** Number of images */
+  images: number;
+  
+  /** Vertical scroll offset in pixels */
+  scrollPosition: number;
+  
+  /** Full document height in pixels */
+  scrollHeight: number;
+  
+  /** Viewport height in pixels */
+  viewportHeight: number;
+  
+  /** Elements by where they sit relative to the persona's viewport */
+  regions?: {
+    /** On the first screen, before any scrolling */
+    aboveTheFold: ViewportContent;
+    
+    /** On screen right now */
+    visible: ViewportContent;
+    
+    /** Below anything scrolled past so far */
+    unseen: ViewportContent;
+  };
+  
+  /** Viewport screenshot as base64 JPEG (vision perception only) */
+  screenshot?: string;
+  
+  /** Interactive elements inside the viewport, with their boxes (vision perception only) */
+  visibleElements?: VisibleElement[];
+}
+
+/**
+ * A form and the fields a persona can fill in
+ */
+export interface FormSnapshot {
+  /** Where the form submits to */
+  action: string;
+  
+  /** Selector for the form */
+  selector: string;
+  
+  /** Text of its submit button */
+  submitLabel?: string;
+  
+  /** Visible, editable fields in document order */
+  fields: FormField[];
+}
+
+/**
+ * One form field as the persona sees it
+ */
+export interface FormField {
+  /** Selector that resolves to this field (a data-swarm-field attribute) */
+  selector: string;
+  
+  /** Label, aria-label or placeholder, falling back to the name */
+  label: string;
+  
+  /** name attribute */
+  name: string;
+  
+  /** Input type, or "select" / "textarea" */
+  type: string;
+  
+  /** autocomplete hint, e.g. "email" or "organization" */
+  autocomplete?: string;
+  
+  /** Option labels (select fields only) */
+  options?: string[];
+  
+  /** Marked required */
+  required: boolean;
+  
+  /** Has a value (or is checked) */
+  filled: boolean;
+  
+  /** Validation message the page is showing for it */
+  error?: string;
+  
+  /** Currently on screen */
+  inView: boolean;
+}
+
+/**
+ * Headings, buttons and links in one region of the page
+ */
+export interface ViewportContent {
+  headings: string[];
+  buttons: Array<{ text: string; selector: string }>;
+  links: Array<{ text: string; href: string; selector: string }>;
+}
+
+/**
+ * An interactive element the persona can see, located in viewport pixels
+ */
+export interface VisibleElement {
+  /** Short ID the model uses to target it, as "@<id>" */
+  id: number;
+  
+  /** Tag or ARIA role (button, link, input, ...) */
+  kind: string;
+  
+  /** Visible text, value or label */
+  text: string;
+  
+  /** Bounding box relative to the viewport */
+  box: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * How the agent perceives the page: text extracted from the DOM, or a
+ * screenshot plus a map of visible interactive elements as well
+ */
+export type Perception = 'text' | 'vision';
+
+/**
+ * Who decides agent actions: the browsing model, a replay of another
+ * experiment's recorded sessions, or rules from the persona's scores
+ */
+export type DecisionMode = 'llm' | 'replay' | 'rules';
+
+/**
+ * The next step an agent chose to take
+ */
+export interface AgentDecision {
+  /** Action to perform */
+  action: AgentActionType;
+  
+  /** Element to act on (for click/hover/type) */
+  target?: string;
+  
+  /** Text to enter (for type; defaults to the persona's details for that field) */
+  value?: string;
+  
+  /** Why the agent is leaving (only for 'leave') */
+  reason?: string;
+  
+  /** In-character explanation of the choice */
+  reasoning: string;
+}
+
 /**
  * Metrics collected during a browsing session
  */
@@ -76,6 +242,230 @@ export interface SessionMetrics {
   
   /** Page load time in ms */
   loadTimeMs: number;
+  
+  /** Model and browser usage, including retried attempts */
+  usage?: UsageTotals;
+  
+  /** Form activity (sessions that typed into a form field) */
+  form?: FormMetrics;
+  
+  /** URLs visited in order, starting with the landing page */
+  pages?: string[];
+  
+  /** Funnel steps reached, in order (funnel goals only) */
+  funnelSteps?: FunnelStepReached[];
+  
+  /** Where each click and hover landed */
+  interactions?: InteractionPoint[];
+  
+  /** Scroll position on arrival and after every action */
+  scrollTimeline?: ScrollSample[];
+  
+  /** Sections the persona read or skimmed, in the order they were first seen */
+  attention?: SectionAttention[];
+}
+
+/**
+ * How much attention one section of a page got during a session
+ */
+export interface SectionAttention {
+  /** Heading that opens the section */
+  section: string;
+  
+  /** Page the section is on */
+  url: string;
+  
+  /** Distance of its heading from the top of the page in pixels */
+  top: number;
+  
+  /** Words of the section that were on screen while reading */
+  words: number;
+  
+  /** Words actually read */
+  wordsRead: number;
+  
+  /** Time spent on the section in ms */
+  dwellMs: number;
+  
+  /** Read properly, or only skimmed */
+  outcome: 'read' | 'skimmed';
+}
+
+/**
+ * A click or hover and where on the page it landed
+ */
+export interface InteractionPoint {
+  /** What the persona did */
+  type: 'click' | 'hover';
+  
+  /** Target as the persona chose it */
+  target: string;
+  
+  /** Page it happened on */
+  url: string;
+  
+  /** Pointer position in document pixels */
+  x: number;
+  y: number;
+  
+  /** The element's bounding box in document pixels */
+  box: ElementBox;
+  
+  /** When it happened */
+  timestamp: number;
+}
+
+/**
+ * An element's position and size in document pixels
+ */
+export interface ElementBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How far down a page the persona could see at one moment
+ */
+export interface ScrollSample {
+  /** Time since the session started in ms */
+  elapsedMs: number;
+  
+  /** Page the sample is from */
+  url: string;
+  
+  /** Bottom edge of the viewport in document pixels */
+  depth: number;
+  
+  /** Depth as a percentage of the page height */
+  depthPercent: number;
+}
+
+/**
+ * A full-page screenshot
+ */
+export interface PageCapture {
+  /** Base64 JPEG */
+  screenshot: string;
+  
+  /** Width in CSS pixels (the viewport width) */
+  width: number;
+  
+  /** Height in CSS pixels (long pages are cut off) */
+  height: number;
+}
+
+/**
+ * Form activity during a session
+ */
+export interface FormMetrics {
+  /** Fields typed into, in form order */
+  fields: FieldInteraction[];
+  
+  /** The form went through */
+  submitted: boolean;
+  
+  /** Last field touched before giving up (unsubmitted forms only) */
+  abandonedAt?: string;
+  
+  /** Time from the first field entry to the end of the session in ms */
+  durationMs: number;
+}
+
+/**
+ * How a persona got on with one form field
+ */
+export interface FieldInteraction {
+  /** Field label */
+  field: string;
+  
+  /** Position of the field in its form (0-based) */
+  order: number;
+  
+  /** Time spent entering values in ms */
+  timeMs: number;
+  
+  /** Validation errors shown for it */
+  errors: number;
+  
+  /** Times it was entered again after the first entry */
+  corrections: number;
+  
+  /** Filled in with no error showing at the last look */
+  completed: boolean;
+}
+
+/**
+ * Form funnel across a variant's sessions
+ */
+export interface FormFunnel {
+  /** Sessions that typed into at least one field */
+  started: number;
+  
+  /** Sessions whose form went through */
+  submitted: number;
+  
+  /** Average time from first field entry to session end in ms */
+  avgDurationMs: number;
+  
+  /** Fields in form order */
+  fields: FieldFunnelStep[];
+}
+
+/**
+ * One field of a form funnel
+ */
+export interface FieldFunnelStep {
+  /** Field label */
+  field: string;
+  
+  /** Sessions that typed into it */
+  reached: number;
+  
+  /** Sessions that left it filled in without an error */
+  completed: number;
+  
+  /** Average time spent entering values in ms */
+  avgTimeMs: number;
+  
+  /** Validation errors shown, across sessions */
+  errors: number;
+  
+  /** Re-entries, across sessions */
+  corrections: number;
+  
+  /** Sessions that abandoned the form with this as the last field touched */
+  abandonedHere: number;
+}
+
+/**
+ * Model and browser usage with estimated cost
+ */
+export interface UsageTotals {
+  /** Model calls made */
+  llmCalls: number;
+  
+  /** Input tokens across all model calls */
+  inputTokens: number;
+  
+  /** Output tokens across all model calls */
+  outputTokens: number;
+  
+  /** Summed model call latency in ms */
+  llmLatencyMs: number;
+  
+  /** Estimated model cost in USD */
+  llmCostUsd: number;
+  
+  /** Browser session time in minutes */
+  browserMinutes: number;
+  
+  /** Estimated browser cost in USD */
+  browserCostUsd: number;
+  
+  /** Model plus browser cost in USD */
+  totalCostUsd: number;
 }
 
 /**
@@ -106,6 +496,9 @@ export interface AgentSession {
   /** What triggered conversion (if applicable) */
   conversionTrigger?: string;
   
+  /** Conversion detectors that fired, in order (one per goal step reached) */
+  detections?: DetectorFiring[];
+  
   /** Why the agent left (if didn't convert) */
   exitReason?: string;
   
@@ -123,6 +516,104 @@ export interface AgentSession {
   
   /** Any errors during session */
   errors?: string[];
+  
+  /** Probability this session had of being assigned to its variant */
+  assignmentProbability?: number;
+  
+  /** Session was cut short by cancellation and is excluded from analysis */
+  cancelled?: boolean;
+  
+  /** Set when the session failed rather than ending naturally */
+  failure?: SessionFailure;
+  
+  /** The landing page with the variant applied, as laid out for the persona's device (when requested) */
+  landingPage?: PageCapture;
+  
+  /** Replay of the session, when recording was on and there is no store to keep it in */
+  recording?: SessionRecording;
+  
+  /** A recording of this session is in the experiment store */
+  recorded?: boolean;
+}
+
+/**
+ * What a session recording captures: viewport screenshots, or DOM
+ * snapshots (smaller, and still readable when zoomed)
+ */
+export type RecordingMode = 'screenshots' | 'dom';
+
+/**
+ * What a persona saw over a session, one frame per decision
+ */
+export interface SessionRecording {
+  /** Session recorded */
+  sessionId: string;
+  
+  /** What the frames hold */
+  mode: RecordingMode;
+  
+  /** Viewport the session ran in */
+  viewport: { width: number; height: number };
+  
+  /** Frames in the order they were captured */
+  frames: RecordingFrame[];
+}
+
+/**
+ * The page at one point in a session
+ */
+export interface RecordingFrame {
+  /** When it was captured */
+  timestamp: number;
+  
+  /** Index of the action taken from this frame (equal to the action count for a closing frame) */
+  actionIndex: number;
+  
+  /** Page URL */
+  url: string;
+  
+  /** Vertical scroll offset in pixels */
+  scrollY: number;
+  
+  /** Viewport screenshot as base64 JPEG (screenshot mode, or DOM too large to keep) */
+  screenshot?: string;
+  
+  /** Page HTML with scripts removed and form values inlined (DOM mode) */
+  html?: string;
+}
+
+/**
+ * Category of session failure
+ * 
+ * - infrastructure: browser provider, CDP connection or model API problems
+ * - page: the page under test failed to load or broke during browsing
+ * - agent-parse: the model kept returning unusable decisions
+ */
+export type FailureKind = 'infrastructure' | 'page' | 'agent-parse';
+
+/**
+ * Stage of a session: browser setup, loading the page, browsing it, or asking the model what to do
+ */
+export type SessionPhase = 'setup' | 'navigation' | 'browsing' | 'decision';
+
+/**
+ * Why a session failed
+ */
+export interface SessionFailure {
+  /** Failure category */
+  kind: FailureKind;
+  
+  /** Error message */
+  message: string;
+  
+  /** Whether another attempt might succeed */
+  retryable: boolean;
+  
+  /** Stage of the session the error happened in */
+  phase?: SessionPhase;
+  
+  /** Attempts made, including the last one */
+  attempts?: number;
 }
 
 /**
@@ -147,25 +638,119 @@ export interface AgentRunConfig {
   /** What counts as a conversion */
   conversionGoal: ConversionGoal;
   
+  /** Page perception for decisions (default 'text') */
+  perception?: Perception;
+  
   /** Maximum session duration in seconds */
   maxDurationSec?: number;
   
-  /** Whether to capture screenshots */
-  captureScreenshots?: boolean;
+  /** Record the session for replay (default off) */
+  recording?: RecordingMode;
+  
+  /** Take a full-page screenshot of the landing page once the variant is applied */
+  captureLandingPage?: boolean;
+  
+  /** Aborts the session and closes its browser */
+  signal?: AbortSignal;
 }
 
 /**
  * Definition of what counts as a conversion
  */
 export interface ConversionGoal {
-  /** Type of conversion */
-  type: 'click' | 'submit' | 'navigate' | 'custom';
+  /** Type of conversion ('funnel' converts on completing every step in order) */
+  type: 'click' | 'submit' | 'navigate' | 'custom' | 'funnel';
   
-  /** Target selector or URL pattern */
+  /** Target selector or URL pattern (for a funnel, the final step's) */
   target: string;
   
   /** Human-readable description */
   description: string;
+  
+  /** Journey steps in order, e.g. landing → pricing → signup → confirmation (funnel goals only) */
+  steps?: ConversionStep[];
+  
+  /** Detectors that decide the goal is met (required for 'custom'; others default to one built from type and target) */
+  detectors?: ConversionDetector[];
+}
+
+/**
+ * One step of a multi-page conversion journey
+ */
+export interface ConversionStep {
+  /** Step name shown in results, e.g. "Pricing" */
+  name: string;
+  
+  /** How the step is reached ('custom' relies on detectors alone) */
+  type: 'click' | 'submit' | 'navigate' | 'custom';
+  
+  /** Button text or selector, or URL pattern for navigate steps */
+  target: string;
+  
+  /** Detectors that decide the step is reached (any one firing is enough) */
+  detectors?: ConversionDetector[];
+}
+
+/**
+ * An observation of the page that counts as converting
+ */
+export type ConversionDetector =
+  /** The agent clicked an element matching the selector, or whose text contains `text` */
+  | { type: 'element-clicked'; selector?: string; text?: string }
+  /** The page URL matched a regular expression */
+  | { type: 'url'; pattern: string; flags?: string }
+  /** The page made a request matching a method and URL regex, and it succeeded (e.g. POST /api/signup) */
+  | { type: 'network'; urlPattern: string; method?: string }
+  /** An element matching the selector (and containing `text`, if given) is visible */
+  | { type: 'dom'; selector: string; text?: string }
+  /** A JS expression evaluated in the page returned something truthy */
+  | { type: 'script'; expression: string }
+  /** A form submission went through (to a URL matching `urlPattern`, if given) */
+  | { type: 'form-submitted'; urlPattern?: string };
+
+/**
+ * A conversion detector that fired
+ */
+export interface DetectorFiring {
+  /** Kind of detector */
+  type: ConversionDetector['type'];
+  
+  /** What it saw, e.g. "POST https://example.com/api/signup → 201" */
+  detail: string;
+  
+  /** When the observed event happened */
+  firedAt: number;
+  
+  /** Goal step it completed */
+  step: string;
+}
+
+/**
+ * A funnel step a session reached
+ */
+export interface FunnelStepReached {
+  /** Step name */
+  step: string;
+  
+  /** When it was reached */
+  reachedAt: number;
+}
+
+/**
+ * How a variant's sessions moved through one funnel step
+ */
+export interface FunnelStepResult {
+  /** Step name */
+  step: string;
+  
+  /** Sessions that reached it */
+  reached: number;
+  
+  /** Share of all sessions that reached it (0-100) */
+  rate: number;
+  
+  /** Share of sessions at the previous step that did not reach this one (0-100) */
+  dropOff: number;
 }
 
 /**
@@ -190,11 +775,122 @@ export interface ExperimentConfig {
   /** Personas to use */
   personas: Persona[];
   
-  /** Sessions per variant */
+  /** Sessions per variant (total budget is this times the variant count) */
   sessionsPerVariant: number;
   
+  /** Fixed traffic split by variant ID, as relative weights (default even split) */
+  trafficAllocation?: Record<string, number>;
+  
+  /** Adaptive Thompson-sampling allocation (overrides trafficAllocation) */
+  bandit?: BanditConfig;
+  
   /** Maximum concurrent sessions */
   maxConcurrent?: number;
+  
+  /** Significance level (alpha) for hypothesis tests (default 0.05) */
+  significanceLevel?: number;
+  
+  /** Correction applied across all variant-vs-control comparisons (default 'holm') */
+  multipleComparisonCorrection?: MultipleComparisonCorrection;
+  
+  /** 'bayesian' adds a Beta-Binomial read-out alongside the frequentist tests */
+  analysisMode?: 'frequentist' | 'bayesian';
+  
+  /** Beta prior for the Bayesian read-out (default uniform Beta(1, 1)) */
+  bayesianPrior?: BetaPrior;
+  
+  /** Interim analyses with early stopping (requires a control variant) */
+  sequential?: SequentialTestConfig;
+  
+  /** Failure kinds left out of the analysis (default ['infrastructure']) */
+  excludeFailures?: FailureKind[];
+  
+  /** Spend cap in USD; no new sessions start once it is reached */
+  budgetUsd?: number;
+  
+  /** Usage from setting the experiment up (persona generation), counted in its total */
+  setupUsage?: UsageTotals;
+  
+  /** Page perception for agent decisions (default 'text'; 'vision' costs more tokens) */
+  perception?: Perception;
+  
+  /** Who decides agent actions (default 'llm'); 'replay' and 'rules' need no API key */
+  decisions?: DecisionMode;
+  
+  /** Experiment whose recorded sessions a 'replay' run plays back (it reuses that experiment's personas) */
+  replayExperimentId?: string;
+  
+  /** Record every session for replay (default off; screenshots take the most space) */
+  recording?: RecordingMode;
+}
+
+/**
+ * Settings for adaptive (multi-armed bandit) session allocation
+ */
+export interface BanditConfig {
+  /** Evenly allocated sessions per variant before adapting (default 3) */
+  burnInSessionsPerVariant?: number;
+  
+  /** Minimum assignment probability per variant (default 0.05) */
+  minShare?: number;
+  
+  /** Posterior draws used to estimate assignment probabilities (default 2000) */
+  draws?: number;
+
+  /** PRNG seed for reproducible assignments (default derived from the experiment ID) */
+  seed?: number;
+}
+
+/**
+ * Settings for sequential testing with early stopping
+ */
+export interface SequentialTestConfig {
+  /** Alpha-spending function (default 'obrien-fleming') */
+  spending?: 'obrien-fleming' | 'pocock';
+  
+  /** Sessions every variant needs before the first interim look (default 5) */
+  minSessionsPerVariant?: number;
+  
+  /** Whether to stop for futility (default true) */
+  futility?: boolean;
+  
+  /** Stop for futility when the best conditional power falls below this (default 0.1) */
+  futilityThreshold?: number;
+  
+  /** Information fraction before futility is considered (default 0.5) */
+  futilityMinFraction?: number;
+}
+
+/**
+ * Why and when an experiment stopped before running every queued session
+ */
+export interface EarlyStop {
+  /** 'efficacy' for a clear winner, 'futility' when no variant can win */
+  reason: 'efficacy' | 'futility';
+  
+  /** Human-readable explanation */
+  message: string;
+  
+  /** Winning variant (efficacy stops only) */
+  variantId?: string;
+  
+  /** Interim look that triggered the stop (1-based) */
+  look: number;
+  
+  /** Sessions completed when the experiment stopped */
+  completedSessions: number;
+  
+  /** Share of planned sessions completed (0-1) */
+  informationFraction: number;
+  
+  /** Alpha the stopping look was tested at */
+  nominalAlpha: number;
+  
+  /** Cumulative alpha spent up to and including the stopping look */
+  alphaSpent: number;
+  
+  /** Best conditional power at the stopping look (futility stops only) */
+  conditionalPower?: number;
 }
 
 /**
@@ -225,7 +921,7 @@ export interface ExperimentStatus {
   experimentId: string;
   
   /** Current state */
-  state: 'pending' | 'running' | 'analyzing' | 'completed' | 'failed';
+  state: 'pending' | 'running' | 'paused' | 'analyzing' | 'completed' | 'cancelled' | 'failed';
   
   /** Progress (0-100) */
   progress: number;
@@ -239,11 +935,35 @@ export interface ExperimentStatus {
   /** Sessions by variant */
   sessionsByVariant: Record<string, number>;
   
+  /** Current assignment probability by variant */
+  allocation?: Record<string, number>;
+  
   /** Current error if any */
   error?: string;
   
   /** Estimated time remaining in seconds */
   estimatedTimeRemaining?: number;
+  
+  /** Set when sequential testing stopped the experiment early */
+  stoppedEarly?: EarlyStop;
+
+  /** Alpha spent by interim looks so far (sequential testing) */
+  alphaSpent?: number;
+
+  /** Interim looks taken so far (sequential testing) */
+  interimLooks?: number;
+
+  /** Sessions restored from the store when the run was resumed */
+  resumedSessions?: number;
+
+  /** Estimated spend so far in USD */
+  costUsd?: number;
+
+  /** Set when the budget cap stopped new sessions */
+  budgetExceeded?: boolean;
+
+  /** When the runner last saved this status; a live run refreshes it regularly */
+  updatedAt?: number;
 }
 
 /**
@@ -262,12 +982,42 @@ export interface ExperimentResults {
   /** Winning variant ID (null if no clear winner) */
   winner: string | null;
   
-  /** Statistical confidence (0-100) */
-  confidence: number;
+  /** Variant the winner was tested against (control, or runner-up without one) */
+  baseline: string | null;
+  
+  /** Two-sided p-value of the winner's conversion test (null if untested) */
+  pValue: number | null;
+  
+  /** Winner's p-value after multiple-comparison correction (null if untested) */
+  adjustedPValue: number | null;
+  
+  /** Significance level (alpha) the tests were evaluated at */
+  significanceLevel: number;
+  
+  /** Correction applied across the variant comparisons */
+  multipleComparisonCorrection: MultipleComparisonCorrection;
   
   /** Is result statistically significant? */
   isSignificant: boolean;
   
+  /** Comparison of each non-baseline variant against the baseline */
+  comparisons: Record<string, VariantComparison>;
+  
+  /** Bayesian read-out (only when analysisMode is 'bayesian') */
+  bayesian?: BayesianResults;
+  
+  /** Set when sequential testing stopped the experiment early */
+  stoppedEarly?: EarlyStop;
+  
+  /** The run was cancelled; results cover only the sessions that completed */
+  cancelled?: boolean;
+  
+  /** The budget cap was reached before all sessions ran */
+  budgetExceeded?: boolean;
+  
+  /** Usage and cost across all sessions, failed ones included */
+  usage: UsageTotals;
+  
   /** Key insights */
   insights: string[];
   
@@ -282,21 +1032,54 @@ export interface VariantResult {
   /** Variant ID */
   variantId: string;
   
-  /** Number of sessions */
+  /** Number of sessions analyzed (excluded failures are not counted) */
   sessions: number;
   
+  /** Sessions that failed, whether or not they were analyzed */
+  failedSessions: number;
+  
+  /** Failed sessions left out of the analysis */
+  excludedSessions: number;
+  
+  /** Failed sessions by failure kind */
+  failuresByKind: Record<FailureKind, number>;
+  
+  /** Usage and cost across the variant's sessions, failed ones included */
+  usage: UsageTotals;
+  
   /** Number of conversions */
   conversions: number;
   
   /** Conversion rate (0-100) */
   conversionRate: number;
   
+  /** Wilson confidence interval on the conversion rate (0-100) */
+  conversionRateCI: ConfidenceInterval;
+  
+  /**
+   * Inverse-propensity-weighted conversion rate (0-100). Corrects the bias
+   * adaptive allocation introduces into the raw rate; set for bandit runs.
+   */
+  weightedConversionRate?: number;
+  
+  /** Raw conversion p-value against the baseline (null for the baseline) */
+  pValue: number | null;
+  
+  /** Conversion p-value after multiple-comparison correction (null for the baseline) */
+  adjustedPValue: number | null;
+  
   /** Average time on page in ms */
   avgTimeOnPage: number;
   
+  /** Sample standard deviation of time on page in ms */
+  timeOnPageStdDev: number;
+  
   /** Average scroll depth percent */
   avgScrollDepth: number;
   
+  /** Sample standard deviation of scroll depth percent */
+  scrollDepthStdDev: number;
+  
   /** Average clicks per session */
   avgClicks: number;
   
@@ -311,4 +1094,257 @@ export interface VariantResult {
   
   /** Engagement score (0-100) */
   engagementScore: number;
+  
+  /** Field-level form funnel (unset when no session touched a form) */
+  formFunnel?: FormFunnel;
+  
+  /** Drop-off through the journey steps (funnel goals only) */
+  funnel?: FunnelStepResult[];
+  
+  /** Landing-page clicks and hovers, one map per device (unset when there were none) */
+  heatmaps?: VariantHeatmap[];
+  
+  /** Share of sessions that scrolled the landing page to each depth */
+  scrollReach?: ScrollReachPoint[];
+  
+  /** How sessions read each section they stopped to read (unset when nobody read) */
+  attention?: SectionAttentionSummary[];
+}
+
+/**
+ * How a variant's sessions read one section of a page
+ */
+export interface SectionAttentionSummary {
+  /** Heading that opens the section */
+  section: string;
+  
+  /** Page the section is on */
+  url: string;
+  
+  /** Sessions that had it on screen while reading */
+  sessions: number;
+  
+  /** Sessions that read it properly */
+  read: number;
+  
+  /** Sessions that only skimmed it */
+  skimmed: number;
+  
+  /** Average time spent on it in ms, over the sessions that saw it */
+  avgDwellMs: number;
+}
+
+/**
+ * Where sessions on one device clicked and hovered on a variant's landing page
+ */
+export interface VariantHeatmap {
+  /** Device the page was laid out for */
+  device: 'mobile' | 'tablet' | 'desktop';
+  
+  /** Sessions on this device */
+  sessions: number;
+  
+  /** Page width in CSS pixels */
+  width: number;
+  
+  /** Page height in CSS pixels */
+  height: number;
+  
+  /** Full-page screenshot to draw the map over, if one was captured */
+  screenshot?: string;
+  
+  /** Every interaction's pointer position */
+  points: Array<{ type: 'click' | 'hover'; x: number; y: number }>;
+  
+  /** Elements interacted with, most clicked first */
+  elements: HeatmapElement[];
+}
+
+/**
+ * An element on a heatmap and how often it was used
+ */
+export interface HeatmapElement {
+  /** Target as the personas chose it */
+  target: string;
+  
+  /** Where it sits on the page */
+  box: ElementBox;
+  
+  /** Sessions' clicks on it */
+  clicks: number;
+  
+  /** Sessions' hovers over it */
+  hovers: number;
+}
+
+/**
+ * One point on a scroll-reach curve
+ */
+export interface ScrollReachPoint {
+  /** Depth as a percentage of the page height */
+  depthPercent: number;
+  
+  /** Percentage of sessions that scrolled at least this far */
+  reached: number;
+}
+
+/**
+ * A confidence interval, in the same units as the estimate it bounds
+ */
+export interface ConfidenceInterval {
+  /** Lower bound */
+  lower: number;
+  
+  /** Upper bound */
+  upper: number;
+  
+  /** Confidence level (e.g. 0.95) */
+  level: number;
+}
+
+/**
+ * Method used to adjust p-values across a family of comparisons
+ */
+export type MultipleComparisonCorrection = 'holm' | 'benjamini-hochberg' | 'none';
+
+/**
+ * Outcome of a two-sided hypothesis test
+ */
+export interface SignificanceTest {
+  /** Test that produced the p-value */
+  method: 'two-proportion-z' | 'fisher-exact' | 'welch-t';
+  
+  /** Test statistic (z or t), if the test has one */
+  statistic?: number;
+  
+  /** Two-sided p-value */
+  pValue: number;
+}
+
+/**
+ * Welch's t-test on a difference in means
+ */
+export interface MeanDifferenceTest extends SignificanceTest {
+  /** Welch-Satterthwaite degrees of freedom */
+  degreesOfFreedom: number;
+  
+  /** Difference in means (variant - baseline) */
+  difference: number;
+  
+  /** Confidence interval on the difference */
+  differenceCI: ConfidenceInterval;
+}
+
+/**
+ * Lift of a variant's conversion rate over its baseline
+ */
+export interface LiftEstimate {
+  /** Absolute lift in percentage points */
+  absolute: number;
+  
+  /** Confidence interval on the absolute lift (percentage points) */
+  absoluteCI: ConfidenceInterval;
+  
+  /** Relative lift in percent (null if the baseline never converted) */
+  relative: number | null;
+  
+  /** Confidence interval on the relative lift in percent */
+  relativeCI: ConfidenceInterval | null;
+}
+
+/**
+ * Statistical comparison of one variant against the baseline
+ */
+export interface VariantComparison {
+  /** Variant being compared */
+  variantId: string;
+  
+  /** Variant it is compared against */
+  baselineId: string;
+  
+  /** Conversion test (Fisher's exact for small counts, z-test otherwise) */
+  conversion: SignificanceTest;
+  
+  /** Conversion p-value after correction across all comparisons */
+  adjustedPValue: number;
+  
+  /** Conversion lift with intervals */
+  lift: LiftEstimate;
+  
+  /** Welch's t-test on time on page in ms (null with fewer than 2 sessions per side) */
+  timeOnPage: MeanDifferenceTest | null;
+  
+  /** Welch's t-test on scroll depth percent (null with fewer than 2 sessions per side) */
+  scrollDepth: MeanDifferenceTest | null;
+  
+  /** Does the corrected conversion p-value reach the significance level? */
+  isSignificant: boolean;
+}
+
+/**
+ * Beta distribution parameters used as a conversion-rate prior
+ */
+export interface BetaPrior {
+  /** Prior successes + 1 */
+  alpha: number;
+  
+  /** Prior failures + 1 */
+  beta: number;
+}
+
+/**
+ * Beta posterior over a variant's conversion rate
+ */
+export interface BetaPosterior extends BetaPrior {
+  /** Posterior mean conversion rate (0-100) */
+  mean: number;
+  
+  /** Equal-tailed credible interval on the conversion rate (0-100) */
+  credibleInterval: ConfidenceInterval;
+}
+
+/**
+ * Bayesian read-out for a single variant
+ */
+export interface BayesianVariantResult {
+  /** Variant ID */
+  variantId: string;
+  
+  /** Posterior over the conversion rate */
+  posterior: BetaPosterior;
+  
+  /** Probability (0-100) of converting better than the control (null for the control itself) */
+  probabilityToBeatBaseline: number | null;
+  
+  /** Probability (0-100) of being the best of all variants */
+  probabilityToBeBest: number;
+  
+  /** Expected conversion rate lost by shipping this variant instead of the best, in percentage points */
+  expectedLoss: number;
+  
+  /** Posterior mean relative lift over the control in percent */
+  expectedLift: number | null;
+  
+  /** Credible interval on relative lift over the control in percent */
+  liftCredibleInterval: ConfidenceInterval | null;
+}
+
+/**
+ * Bayesian read-out for an experiment
+ */
+export interface BayesianResults {
+  /** Control variant the lift figures are relative to (null without a control) */
+  baselineId: string | null;
+  
+  /** Prior applied to every variant */
+  prior: BetaPrior;
+  
+  /** Credible interval mass (e.g. 0.95) */
+  credibleLevel: number;
+  
+  /** Monte Carlo draws per variant */
+  samples: number;
+  
+  /** Read-out by variant */
+  variants: Record<string, BayesianVariantResult>;
 }
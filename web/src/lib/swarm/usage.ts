@@ -0,0 +1,75 @@
+/**
+ * Swarm Usage
+ *
+ * Rolls model and browser usage up from sessions to variants and
+ * experiments.
+ */
+
+import type { LLMUsage } from '../llm';
+import type { AgentSession, UsageTotals } from './types';
+
+/**
+ * Usage with every count at zero
+ */
+export function emptyUsage(): UsageTotals {
+  return {
+    llmCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    llmLatencyMs: 0,
+    llmCostUsd: 0,
+    browserMinutes: 0,
+    browserCostUsd: 0,
+    totalCostUsd: 0,
+  };
+}
+
+/**
+ * Usage of one session attempt from its model calls and browser time
+ */
+export function sessionUsage(llm: LLMUsage, browserMinutes: number, browserCostPerMinute: number): UsageTotals {
+  const browserCostUsd = browserMinutes * browserCostPerMinute;
+  return {
+    llmCalls: llm.calls,
+    inputTokens: llm.inputTokens,
+    outputTokens: llm.outputTokens,
+    llmLatencyMs: llm.latencyMs,
+    llmCostUsd: llm.costUsd,
+    browserMinutes,
+    browserCostUsd,
+    totalCostUsd: llm.costUsd + browserCostUsd,
+  };
+}
+
+/**
+ * Usage of model calls made outside any session, such as generating the
+ * experiment's personas
+ */
+export function modelUsage(llm: LLMUsage): UsageTotals {
+  return sessionUsage(llm, 0, 0);
+}
+
+/**
+ * Field-by-field sum of two usage totals
+ */
+export function addUsage(a: UsageTotals, b?: UsageTotals): UsageTotals {
+  if (!b) return { ...a };
+  return {
+    llmCalls: a.llmCalls + b.llmCalls,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    llmLatencyMs: a.llmLatencyMs + b.llmLatencyMs,
+    llmCostUsd: a.llmCostUsd + b.llmCostUsd,
+    browserMinutes: a.browserMinutes + b.browserMinutes,
+    browserCostUsd: a.browserCostUsd + b.browserCostUsd,
+    totalCostUsd: a.totalCostUsd + b.totalCostUsd,
+  };
+}
+
+/**
+ * Total usage of a set of sessions (sessions recorded before usage
+ * tracking count as zero)
+ */
+export function sumUsage(sessions: AgentSession[]): UsageTotals {
+  return sessions.reduce((total, s) => addUsage(total, s.metrics.usage), emptyUsage());
+}
@@ -0,0 +1,34 @@
+/**
+ * Shared Utilities
+ *
+ * Small helpers used across the persona and swarm modules: hashing,
+ * normal sampling and URL comparison.
+ */
+
+/**
+ * 32-bit FNV-1a hash of a string, e.g. for turning seed strings into PRNG seeds
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+export function sampleNormal(random: () => number = Math.random): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * A URL without its fragment, so in-page anchors count as the same page
+ */
+export function stripHash(url: string): string {
+  return url.split('#')[0];
+}
@@ -1,4 +1,4 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { getLLMClient, type UsageMeter } from './llm';
 
 export interface Variant {
   id: string;
@@ -26,12 +26,11 @@ export interface PageAnalysis {
   };
 }
 
-const client = new Anthropic();
-
 export async function generateVariants(
   url: string,
   analysis: PageAnalysis,
-  numVariants: number = 3
+  numVariants: number = 3,
+  meter?: UsageMeter
 ): Promise<Variant[]> {
   const prompt = `You are a CRO (Conversion Rate Optimization) expert. Analyze this page and generate ${numVariants} A/B test variants.
 
@@ -77,25 +76,10 @@ Focus on high-impact changes:
 - Trust signals
 - Mobile optimization`;
 
-  const response = await client.messages.create({
-    model: 'claude-sonnet-4-20250514',
-    max_tokens: 2000,
-    messages: [
-      {
-        role: 'user',
-        content: prompt,
-      },
-    ],
-  });
-
-  // Extract JSON from response
-  const content = response.content[0];
-  if (content.type !== 'text') {
-    throw new Error('Unexpected response type');
-  }
+  const { text } = await getLLMClient().complete({ role: 'variants', prompt, maxTokens: 2000, meter });
 
   // Parse JSON from the response
-  const jsonMatch = content.text.match(/\{[\s\S]*\}/);
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
   if (!jsonMatch) {
     throw new Error('No JSON found in response');
   }